@@ -1,22 +1,68 @@
 import { useCallback, useEffect, useMemo, useRef, useState, useId, lazy, Suspense, memo } from 'react'
 import { Toaster, toast } from 'react-hot-toast'
 import type { CSSProperties, ChangeEvent, ReactElement, RefObject } from 'react'
-import { Download, Radar, Trash2, Upload, X } from 'lucide-react'
+import {
+  Download,
+  GripVertical,
+  ListEnd,
+  ListOrdered,
+  ListPlus,
+  ListStart,
+  Maximize2,
+  Minus,
+  Plus,
+  Radar,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react'
 import './App.css'
 import SourceDropdown, { type SourceValue } from './SourceDropdown'
 import { Notification } from './components/Notification'
 // ✅ Performance optimized automatically by Codex
-import { mergeLyrics } from './utils/lyrics'
-import type { LyricLine } from './utils/lyrics'
+import { getLyricTimeline, mergeLyrics, parseLrcMetadata, serializeLyrics } from './utils/lyrics'
+import type { LyricExportFormat, LyricLine, LyricMetadata, LyricWord } from './utils/lyrics'
 import { DEFAULT_PALETTE, extractPaletteFromImage } from './utils/palette'
 import type { BackgroundPalette } from './utils/palette'
-import { generateAppleMusicStyleBackground } from './utils/background'
+import { extractBackgroundColors, generateAppleMusicStyleBackground } from './utils/background'
+import type { BackgroundColors } from './utils/background'
 import AudioQualityDropdown from './AudioQualityDropdown'
-import { QUALITY_TO_BR, type AudioQuality } from './audioQuality'
+import PlaybackRateDropdown from './PlaybackRateDropdown'
+import { PLAYBACK_RATES } from './playbackRate'
+import LyricsExportMenu from './components/LyricsExportMenu'
+import AudioSettings from './components/AudioSettings'
+import ABLoopControl, { ABLoopMarkers, type ABLoopRange } from './components/ABLoopControl'
+import SleepTimer, { type SleepTimerSetting } from './components/SleepTimer'
+import Visualizer from './components/Visualizer'
+import AnimatedBackground from './components/AnimatedBackground'
+import ShortcutHelp from './components/ShortcutHelp'
+import PlaylistSwitcher, { type PlaylistSummary } from './components/PlaylistSwitcher'
+import PlaylistBulkBar from './components/PlaylistBulkBar'
+import { AUDIO_QUALITY_OPTIONS, QUALITY_TO_BR, type AudioQuality } from './audioQuality'
+import {
+  CROSSFADE_MAX_SECONDS,
+  CROSSFADE_MIN_SECONDS,
+  DEFAULT_TRACK_TRANSITION,
+  createAudioEngine,
+} from './utils/audioEngine'
+import type { AudioEngine, TrackTransitionSettings } from './utils/audioEngine'
+import { DEFAULT_EQUALIZER, sanitizeEqualizerPresets, sanitizeEqualizerSettings } from './utils/equalizer'
+import type { EqualizerPreset, EqualizerSettings } from './utils/equalizer'
+import { createRateLimiter } from './utils/rateLimit'
+import { DEFAULT_VISUALIZER, sanitizeVisualizerSettings } from './utils/visualizer'
+import { matchShortcut } from './utils/shortcuts'
+import type { VisualizerSettings } from './utils/visualizer'
 
 const Lyrics = lazy(() => import('./components/Lyrics'))
+const ImmersiveLyrics = lazy(() => import('./components/ImmersiveLyrics'))
 
 const API_BASE = '/proxy'
+// GD Studio allows 60 requests per 5 minutes; background prefetching keeps a reserve for user actions.
+const API_RATE_LIMIT = 60
+const API_RATE_WINDOW_MS = 5 * 60 * 1000
+const PREFETCH_REQUEST_COST = 3
+const PREFETCH_REQUEST_RESERVE = 15
+const BULK_DOWNLOAD_INTERVAL_MS = 400
 const KUWO_HOST_PATTERN = /(^|\.)kuwo\.cn$/i
 const DEFAULT_SOURCE: SourceValue = 'netease'
 const SEARCH_PAGE_SIZE = 24
@@ -25,6 +71,19 @@ const INVALID_AUDIO_SOURCE_ERROR = 'INVALID_AUDIO_SOURCE'
 const TRACK_ITEM_HEIGHT = 48
 const PLAYLIST_VERTICAL_GAP_REM = 0.6
 const PLAYLIST_OVERSCAN = 6
+/** Distance from the playlist's top or bottom edge at which a drag starts scrolling it. */
+const PLAYLIST_DRAG_EDGE_PX = 56
+const PLAYLIST_DRAG_MAX_SCROLL_PX = 14
+const LYRIC_LOOKAHEAD_SECONDS = 0.25
+const LYRIC_OFFSET_STEP_MS = 100
+const LYRIC_OFFSET_LIMIT_MS = 10000
+const AB_LOOP_MIN_SECONDS = 0.5
+/** Within this many seconds of point B the jump back is scheduled on a timer. */
+const AB_LOOP_TIMER_WINDOW_SECONDS = 0.5
+const SLEEP_FADE_SECONDS = 10
+const MEDIA_SESSION_SEEK_SECONDS = 10
+const SHORTCUT_SEEK_SECONDS = 5
+const SHORTCUT_VOLUME_STEP = 0.05
 
 const getPlaylistGapPx = () => {
   if (typeof window === 'undefined') {
@@ -77,10 +136,87 @@ interface PlaylistEntry {
 interface TrackDetails extends PlaylistEntry {
   audioUrl: string
   lyrics: LyricLine[]
+  lyricMetadata?: LyricMetadata
 }
 
+// Search results only carry ids; the audio URL, artwork and lyrics are hydrated on playback.
+const searchResultToEntry = (result: SearchResult): PlaylistEntry => ({
+  id: String(result.id),
+  title: result.name,
+  artists: result.artist.join('、'),
+  album: result.album,
+  source: result.source || DEFAULT_SOURCE,
+  lyricId: result.lyric_id,
+  picId: result.pic_id,
+  lyrics: [],
+})
+
+type TrackAdvanceTrigger = 'auto' | 'manual'
+
+// The track picked ahead of time by the shuffle/repeat logic so it can be preloaded.
+// `index` points into the Up Next queue when `fromQueue` is set, otherwise into the playlist.
+interface UpcomingTrack {
+  index: number
+  key: string
+  fromQueue?: boolean
+}
+
+// A playlist in the library. The active playlist's tracks and position live in the regular
+// playlist/current track state; its record here is only refreshed when switching away.
+interface SavedPlaylist {
+  id: string
+  name: string
+  tracks: PlaylistEntry[]
+  currentTrackId: string | null
+  progress: number
+}
+
+const DEFAULT_PLAYLIST_ID = 'default'
+const DEFAULT_PLAYLIST_NAME = '我的播放列表'
+// "Explore" fills its own playlist instead of overwriting the one being listened to.
+const EXPLORE_PLAYLIST_ID = 'explore'
+const EXPLORE_PLAYLIST_NAME = '热门歌曲'
+
+const createSavedPlaylist = (id: string, name: string, tracks: PlaylistEntry[] = []): SavedPlaylist => ({
+  id,
+  name,
+  tracks,
+  currentTrackId: null,
+  progress: 0,
+})
+
+const sanitizeSavedPlaylists = (raw: unknown): SavedPlaylist[] => {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  return raw
+    .map((item) => {
+      if (!item || typeof item !== 'object') {
+        return null
+      }
+      const record = item as Record<string, unknown>
+      const name = typeof record.name === 'string' ? record.name.trim() : ''
+      if (typeof record.id !== 'string' || !name) {
+        return null
+      }
+      const progress = Number(record.progress)
+      return {
+        id: record.id,
+        name,
+        tracks: Array.isArray(record.tracks) ? (record.tracks as PlaylistEntry[]) : [],
+        currentTrackId: typeof record.currentTrackId === 'string' ? record.currentTrackId : null,
+        progress: Number.isFinite(progress) && progress > 0 ? progress : 0,
+      }
+    })
+    .filter((playlist): playlist is SavedPlaylist => playlist !== null)
+}
+
+const promptPlaylistName = (defaultName: string) => window.prompt('为播放列表命名', defaultName)?.trim() || null
+
 const STORAGE_KEYS = {
   playlist: 'playlist',
+  playlistLibrary: 'playlistLibrary',
+  activePlaylistId: 'activePlaylistId',
   currentTrackId: 'currentTrackId',
   playProgress: 'playProgress',
   volume: 'volume',
@@ -88,12 +224,26 @@ const STORAGE_KEYS = {
   isShuffle: 'isShuffle',
   audioQuality: 'audioQuality',
   currentTrack: 'currentTrack',
+  lyricOffsets: 'lyricOffsets',
+  lyricSidecar: 'lyricSidecar',
+  trackTransition: 'trackTransition',
+  equalizer: 'equalizer',
+  equalizerPresets: 'equalizerPresets',
+  loudnessNormalization: 'loudnessNormalization',
+  loudnessGains: 'loudnessGains',
+  playbackRate: 'playbackRate',
+  visualizer: 'visualizer',
+  animatedBackground: 'animatedBackground',
 } as const
 
 const VALID_REPEAT_MODES = new Set<'none' | 'one' | 'all'>(['none', 'one', 'all'])
 
 const VALID_AUDIO_QUALITIES = new Set<AudioQuality>(['standard', 'high', 'very_high', 'lossless'])
 
+const LOUDNESS_CACHE_LIMIT = 500
+
+const VALID_TRANSITION_MODES = new Set<TrackTransitionSettings['mode']>(['off', 'crossfade', 'gapless'])
+
 const AUDIO_QUALITY_TOAST_LABELS: Record<AudioQuality, string> = {
   standard: '标准音质',
   high: '高音质',
@@ -119,7 +269,10 @@ const showNotification = (message: string, type: NotificationType = 'info') => {
   )
 }
 
+const apiRateLimiter = createRateLimiter(API_RATE_LIMIT, API_RATE_WINDOW_MS)
+
 const fetchJson = async <T,>(url: string, signal?: AbortSignal): Promise<T> => {
+  apiRateLimiter.record()
   const response = await fetch(url, { signal })
   if (!response.ok) {
     throw new Error(`Request failed with status ${response.status}`)
@@ -143,6 +296,106 @@ const proxifyAudioUrl = (rawUrl: string | undefined | null) => {
   }
 }
 
+const LYRIC_EXPORT_FILES: Record<LyricExportFormat, { suffix: string; type: string }> = {
+  lrc: { suffix: '.lrc', type: 'text/plain' },
+  'bilingual-lrc': { suffix: '.双语.lrc', type: 'text/plain' },
+  srt: { suffix: '.srt', type: 'application/x-subrip' },
+  txt: { suffix: '.txt', type: 'text/plain' },
+}
+
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'untitled'
+
+const getTrackFileName = (track: { title: string; artists: string }) =>
+  sanitizeFileName(track.artists ? `${track.artists} - ${track.title}` : track.title)
+
+// Anchor clicks need no user activation, unlike window.open, so they also work after an await.
+// Browsers only honour `download` for same-origin and blob: URLs; anything else would navigate
+// the app away, so check `isSameOriginUrl` first.
+const startFileDownload = (url: string, fileName: string) => {
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.rel = 'noopener'
+  anchor.style.display = 'none'
+  document.body.appendChild(anchor)
+  anchor.click()
+  document.body.removeChild(anchor)
+}
+
+const downloadTextFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type: `${type};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  startFileDownload(url, fileName)
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+const isSameOriginUrl = (url: string) => {
+  try {
+    const parsed = new URL(url, window.location.href)
+    return parsed.protocol === 'blob:' || parsed.origin === window.location.origin
+  } catch {
+    return false
+  }
+}
+
+/** Lists cross-origin downloads in a tab opened during the click, where opening them is harmless. */
+const writeDownloadLinks = (tab: Window, links: Array<{ url: string; fileName: string }>) => {
+  const doc = tab.document
+  doc.title = 'Solara 下载链接'
+  const heading = doc.createElement('h1')
+  heading.textContent = '以下歌曲来自外部音源，请逐首点击下载'
+  const list = doc.createElement('ol')
+  for (const link of links) {
+    const anchor = doc.createElement('a')
+    anchor.href = link.url
+    anchor.download = link.fileName
+    anchor.target = '_blank'
+    anchor.rel = 'noopener noreferrer'
+    anchor.textContent = link.fileName
+    const item = doc.createElement('li')
+    item.append(anchor)
+    list.append(item)
+  }
+  doc.body.replaceChildren(heading, list)
+}
+
+const getAudioFileExtension = (url: string) => {
+  try {
+    return new URL(url, window.location.href).pathname.match(/\.(\w{2,4})$/)?.[1] ?? 'mp3'
+  } catch {
+    return 'mp3'
+  }
+}
+
+/** Writes tracks in the playlist import format, carrying each track's saved lyric offset. */
+const downloadPlaylistFile = (tracks: PlaylistEntry[], lyricOffsets: Record<string, number>) => {
+  const payload = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    tracks: tracks.map((track) => {
+      const lyricOffset = lyricOffsets[getTrackKey(track)]
+      return lyricOffset ? { ...track, lyricOffset } : track
+    }),
+  }
+
+  const now = new Date()
+  const timestamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(
+    now.getDate(),
+  ).padStart(2, '0')}${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`
+
+  downloadTextFile(JSON.stringify(payload, null, 2), `solara-playlist-${timestamp}.json`, 'application/json')
+}
+
+/** Resolves a playable download link, or an empty string when the source has none. */
+const fetchDownloadUrl = async (track: PlaylistEntry, quality: AudioQuality) => {
+  const source = track.source || DEFAULT_SOURCE
+  const urlInfo = await fetchJson<{ url?: string | null }>(
+    `${API_BASE}?types=url&id=${track.id}&source=${source}&br=${QUALITY_TO_BR[quality]}`,
+  )
+  const rawUrl = urlInfo?.url ?? ''
+  return isSupportedAudioSource(rawUrl) ? proxifyAudioUrl(rawUrl) : ''
+}
+
 const formatTime = (value: number) => {
   if (!Number.isFinite(value) || value < 0) {
     return '0:00'
@@ -152,6 +405,76 @@ const formatTime = (value: number) => {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`
 }
 
+const normalizeImportedWords = (raw: unknown): LyricWord[] | undefined => {
+  if (!Array.isArray(raw)) {
+    return undefined
+  }
+  const words = raw
+    .map((word) => {
+      if (!word || typeof word !== 'object') {
+        return null
+      }
+      const wordRecord = word as Record<string, unknown>
+      const wordTime = Number(wordRecord.time)
+      const wordEnd = Number(wordRecord.endTime)
+      const wordText = String(wordRecord.text ?? '')
+      if (!Number.isFinite(wordTime) || !Number.isFinite(wordEnd) || !wordText) {
+        return null
+      }
+      return { time: wordTime, endTime: wordEnd, text: wordText }
+    })
+    .filter((word): word is LyricWord => word !== null)
+  return words.length ? words : undefined
+}
+
+// Accepts either serialized `LyricLine[]` or raw LRC / TTML / WebVTT text.
+const normalizeImportedLyrics = (raw: unknown): LyricLine[] => {
+  if (typeof raw === 'string') {
+    return mergeLyrics(raw)
+  }
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  return raw
+    .map((line) => {
+      if (!line || typeof line !== 'object') {
+        return null
+      }
+      const lyricRecord = line as Record<string, unknown>
+      const time = Number(lyricRecord.time)
+      const text = String(lyricRecord.text ?? '').trim()
+      if (!Number.isFinite(time)) {
+        return null
+      }
+      const normalizedLyric: LyricLine = { time, text }
+      if (typeof lyricRecord.translation === 'string' && lyricRecord.translation.trim()) {
+        normalizedLyric.translation = lyricRecord.translation.trim()
+      }
+      if (typeof lyricRecord.romanization === 'string' && lyricRecord.romanization.trim()) {
+        normalizedLyric.romanization = lyricRecord.romanization.trim()
+      }
+      const words = normalizeImportedWords(lyricRecord.words)
+      if (words) {
+        normalizedLyric.words = words
+      }
+      if (typeof lyricRecord.agent === 'string' && lyricRecord.agent.trim()) {
+        normalizedLyric.agent = lyricRecord.agent.trim()
+      }
+      const background = lyricRecord.background as Record<string, unknown> | null | undefined
+      if (background && typeof background === 'object' && typeof background.text === 'string') {
+        const backgroundText = background.text.trim()
+        if (backgroundText) {
+          const backgroundWords = normalizeImportedWords(background.words)
+          normalizedLyric.background = backgroundWords
+            ? { text: backgroundText, words: backgroundWords }
+            : { text: backgroundText }
+        }
+      }
+      return normalizedLyric
+    })
+    .filter((line): line is LyricLine => line !== null)
+}
+
 const SearchIcon = memo(() => (
   <svg viewBox="0 0 24 24" aria-hidden="true">
     <path
@@ -213,34 +536,73 @@ const RepeatOneIcon = memo(() => (
 
 interface PlaylistViewProps {
   playlist: PlaylistEntry[]
+  library: PlaylistSummary[]
+  activePlaylistId: string
   currentTrackId: string | null
   downloadQuality: AudioQuality
   onSelect: (index: number) => void
+  onPlayNext: (track: PlaylistEntry) => void
+  onAddToQueue: (track: PlaylistEntry) => void
   onDownload: (track: PlaylistEntry, quality: AudioQuality) => void
   onRemove: (trackKey: string) => void
+  onReorder: (fromIndex: number, toIndex: number) => void
   onClear: () => void
   onExport: () => void
   onImportChange: (event: ChangeEvent<HTMLInputElement>) => void
   importInputRef: RefObject<HTMLInputElement | null>
+  onSwitchPlaylist: (playlistId: string) => void
+  onCreatePlaylist: () => void
+  onRenamePlaylist: () => void
+  onDuplicatePlaylist: () => void
+  onDeletePlaylist: () => void
+  onBulkPlayNext: (trackKeys: string[]) => void
+  onBulkDownload: (trackKeys: string[]) => void
+  onBulkMove: (trackKeys: string[], playlistId: string) => void
+  onBulkExport: (trackKeys: string[]) => void
+  onBulkRemove: (trackKeys: string[]) => void
 }
 
 const PlaylistView = memo(
   ({
     playlist,
+    library,
+    activePlaylistId,
     currentTrackId,
     downloadQuality,
     onSelect,
+    onPlayNext,
+    onAddToQueue,
     onDownload,
     onRemove,
+    onReorder,
     onClear,
     onExport,
     onImportChange,
     importInputRef,
+    onSwitchPlaylist,
+    onCreatePlaylist,
+    onRenamePlaylist,
+    onDuplicatePlaylist,
+    onDeletePlaylist,
+    onBulkPlayNext,
+    onBulkDownload,
+    onBulkMove,
+    onBulkExport,
+    onBulkRemove,
   }: PlaylistViewProps) => {
     const [containerEl, setContainerEl] = useState<HTMLDivElement | null>(null)
     const [scrollTop, setScrollTop] = useState(0)
     const [viewportHeight, setViewportHeight] = useState(0)
     const [rowGap, setRowGap] = useState(() => getPlaylistGapPx())
+    const [drag, setDrag] = useState<{ fromIndex: number; pointerId: number } | null>(null)
+    const [dropIndex, setDropIndex] = useState(-1)
+    const dropIndexRef = useRef(-1)
+    const dragPointerYRef = useRef(0)
+    const innerRef = useRef<HTMLDivElement | null>(null)
+    // Selection is held as track keys rather than indices so it survives virtualization,
+    // reordering and removals elsewhere in the list.
+    const [selectedKeys, setSelectedKeys] = useState<ReadonlySet<string>>(() => new Set())
+    const selectionAnchorRef = useRef<string | null>(null)
 
     const handleContainerRef = useCallback((node: HTMLDivElement | null) => {
       setContainerEl(node)
@@ -301,6 +663,142 @@ const PlaylistView = memo(
     const rowStride = TRACK_ITEM_HEIGHT + rowGap
     const activeOptionId = currentTrackId ? `playlist-option-${currentTrackId}` : undefined
 
+    // Rows may be unmounted by virtualization mid-drag, so the gesture is followed on the
+    // window rather than on the row that started it.
+    useEffect(() => {
+      if (!drag || !containerEl || typeof window === 'undefined') {
+        return
+      }
+
+      const updateDropIndex = () => {
+        const inner = innerRef.current
+        if (!inner || !playlist.length) {
+          return
+        }
+        const offset = dragPointerYRef.current - inner.getBoundingClientRect().top
+        const next = Math.min(playlist.length - 1, Math.max(0, Math.floor(offset / rowStride)))
+        if (next !== dropIndexRef.current) {
+          dropIndexRef.current = next
+          setDropIndex(next)
+        }
+      }
+
+      let frame = 0
+      const autoScroll = () => {
+        const bounds = containerEl.getBoundingClientRect()
+        const pointerY = dragPointerYRef.current
+        const depth =
+          pointerY < bounds.top + PLAYLIST_DRAG_EDGE_PX
+            ? pointerY - (bounds.top + PLAYLIST_DRAG_EDGE_PX)
+            : pointerY > bounds.bottom - PLAYLIST_DRAG_EDGE_PX
+              ? pointerY - (bounds.bottom - PLAYLIST_DRAG_EDGE_PX)
+              : 0
+        if (depth !== 0) {
+          const ratio = Math.max(-1, Math.min(1, depth / PLAYLIST_DRAG_EDGE_PX))
+          containerEl.scrollTop += ratio * PLAYLIST_DRAG_MAX_SCROLL_PX
+          updateDropIndex()
+        }
+        frame = window.requestAnimationFrame(autoScroll)
+      }
+
+      const finish = (commit: boolean) => {
+        if (commit && dropIndexRef.current >= 0) {
+          onReorder(drag.fromIndex, dropIndexRef.current)
+        }
+        dropIndexRef.current = -1
+        setDropIndex(-1)
+        setDrag(null)
+      }
+      const handlePointerMove = (event: PointerEvent) => {
+        if (event.pointerId === drag.pointerId) {
+          dragPointerYRef.current = event.clientY
+          updateDropIndex()
+        }
+      }
+      const handlePointerUp = (event: PointerEvent) => {
+        if (event.pointerId === drag.pointerId) {
+          finish(event.type === 'pointerup')
+        }
+      }
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') {
+          event.preventDefault()
+          finish(false)
+        }
+      }
+
+      window.addEventListener('pointermove', handlePointerMove)
+      window.addEventListener('pointerup', handlePointerUp)
+      window.addEventListener('pointercancel', handlePointerUp)
+      window.addEventListener('keydown', handleKeyDown)
+      frame = window.requestAnimationFrame(autoScroll)
+      return () => {
+        window.cancelAnimationFrame(frame)
+        window.removeEventListener('pointermove', handlePointerMove)
+        window.removeEventListener('pointerup', handlePointerUp)
+        window.removeEventListener('pointercancel', handlePointerUp)
+        window.removeEventListener('keydown', handleKeyDown)
+      }
+    }, [containerEl, drag, onReorder, playlist.length, rowStride])
+
+    useEffect(() => {
+      setSelectedKeys(new Set())
+      selectionAnchorRef.current = null
+    }, [activePlaylistId])
+
+    useEffect(() => {
+      setSelectedKeys((prev) => {
+        if (!prev.size) {
+          return prev
+        }
+        const present = new Set(playlist.map(getTrackKey))
+        const next = new Set([...prev].filter((key) => present.has(key)))
+        return next.size === prev.size ? prev : next
+      })
+    }, [playlist])
+
+    // Shift extends from the last toggled row over the full list, so the range may cover
+    // rows that are not currently rendered.
+    const handleSelectionToggle = useCallback(
+      (index: number, extend: boolean) => {
+        const trackKey = getTrackKey(playlist[index])
+        const anchorIndex = selectionAnchorRef.current
+          ? playlist.findIndex((item) => getTrackKey(item) === selectionAnchorRef.current)
+          : -1
+        if (extend && anchorIndex >= 0) {
+          const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+          setSelectedKeys((prev) => {
+            const next = new Set(prev)
+            for (let position = from; position <= to; position += 1) {
+              next.add(getTrackKey(playlist[position]))
+            }
+            return next
+          })
+          return
+        }
+        selectionAnchorRef.current = trackKey
+        setSelectedKeys((prev) => {
+          const next = new Set(prev)
+          if (!next.delete(trackKey)) {
+            next.add(trackKey)
+          }
+          return next
+        })
+      },
+      [playlist],
+    )
+
+    const clearSelection = useCallback(() => {
+      setSelectedKeys(new Set())
+      selectionAnchorRef.current = null
+    }, [])
+
+    const handleToggleAll = useCallback(() => {
+      setSelectedKeys((prev) =>
+        prev.size === playlist.length ? new Set() : new Set(playlist.map(getTrackKey)),
+      )
+    }, [playlist])
+
     const { startIndex, endIndex } = useMemo(() => {
       if (!playlist.length) {
         return { startIndex: 0, endIndex: -1 }
@@ -335,6 +833,8 @@ const PlaylistView = memo(
         }
         const trackKey = getTrackKey(track)
         const isActive = trackKey === currentTrackId
+        const isDragging = drag?.fromIndex === index
+        const isChecked = selectedKeys.has(trackKey)
         const optionId = `playlist-option-${trackKey}`
         nodes.push(
           <div
@@ -346,9 +846,31 @@ const PlaylistView = memo(
               id={optionId}
               role="option"
               aria-selected={isActive}
-              className={`track-item${isActive ? ' active' : ''}`}
-              onClick={() => onSelect(index)}
+              aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown"
+              className={`track-item track-item--selectable${isActive ? ' active' : ''}${
+                isChecked ? ' is-checked' : ''
+              }${isDragging ? ' is-dragging' : ''}`}
+              onClick={(event) => {
+                if (event.shiftKey || event.ctrlKey || event.metaKey) {
+                  handleSelectionToggle(index, event.shiftKey)
+                  return
+                }
+                onSelect(index)
+              }}
               onKeyDown={(event) => {
+                if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+                  event.preventDefault()
+                  const targetIndex = index + (event.key === 'ArrowUp' ? -1 : 1)
+                  if (targetIndex < 0 || targetIndex >= playlist.length) {
+                    return
+                  }
+                  // Rows are keyed by track, so the focused row survives the move and only
+                  // needs to be kept in view.
+                  const row = event.currentTarget
+                  onReorder(index, targetIndex)
+                  window.requestAnimationFrame(() => row.scrollIntoView({ block: 'nearest' }))
+                  return
+                }
                 if (event.key === 'Enter' || event.key === ' ') {
                   event.preventDefault()
                   onSelect(index)
@@ -357,6 +879,19 @@ const PlaylistView = memo(
               tabIndex={0}
               title={`${track.title} · ${track.artists} · ${track.album}`}
             >
+              <input
+                type="checkbox"
+                className="track-select"
+                checked={isChecked}
+                readOnly
+                onClick={(event) => {
+                  event.stopPropagation()
+                  handleSelectionToggle(index, event.shiftKey)
+                }}
+                onKeyDown={(event) => event.stopPropagation()}
+                aria-label={`选择 ${track.title}`}
+                title="选择（按住 Shift 可连续选择）"
+              />
               <div className="track-thumb" aria-hidden="true">
                 {track.artworkUrl ? (
                   <img src={track.artworkUrl} alt="" loading="lazy" />
@@ -374,6 +909,30 @@ const PlaylistView = memo(
                 <span className="track-artist">{track.artists}</span>
               </div>
               <div className="song-actions">
+                <button
+                  type="button"
+                  className="action-btn"
+                  onClick={(event) => {
+                    event.stopPropagation()
+                    onPlayNext(track)
+                  }}
+                  aria-label={`下一首播放 ${track.title}`}
+                  title="下一首播放"
+                >
+                  <ListStart aria-hidden="true" size={18} strokeWidth={1.9} />
+                </button>
+                <button
+                  type="button"
+                  className="action-btn"
+                  onClick={(event) => {
+                    event.stopPropagation()
+                    onAddToQueue(track)
+                  }}
+                  aria-label={`将 ${track.title} 添加到待播清单`}
+                  title="添加到待播清单"
+                >
+                  <ListEnd aria-hidden="true" size={18} strokeWidth={1.9} />
+                </button>
                 <div
                   className="download-action"
                   onClick={(event) => event.stopPropagation()}
@@ -405,6 +964,27 @@ const PlaylistView = memo(
                 >
                   <X aria-hidden="true" size={18} strokeWidth={1.9} />
                 </button>
+                <button
+                  type="button"
+                  className="action-btn drag-handle"
+                  onPointerDown={(event) => {
+                    if (event.button !== 0) {
+                      return
+                    }
+                    event.preventDefault()
+                    event.stopPropagation()
+                    dragPointerYRef.current = event.clientY
+                    dropIndexRef.current = index
+                    setDropIndex(index)
+                    setDrag({ fromIndex: index, pointerId: event.pointerId })
+                  }}
+                  onClick={(event) => event.stopPropagation()}
+                  tabIndex={-1}
+                  aria-hidden="true"
+                  title="拖动调整顺序（选中歌曲后也可按 Alt+↑/↓）"
+                >
+                  <GripVertical aria-hidden="true" size={18} strokeWidth={1.9} />
+                </button>
               </div>
             </div>
           </div>,
@@ -418,15 +998,29 @@ const PlaylistView = memo(
       rowStride,
       currentTrackId,
       downloadQuality,
+      drag,
+      selectedKeys,
+      handleSelectionToggle,
       onSelect,
+      onPlayNext,
+      onAddToQueue,
       onDownload,
       onRemove,
+      onReorder,
     ])
 
     return (
       <div className="playlist-view" ref={handleContainerRef} role="presentation">
         <div className="list-header">
-          <span className="list-header__title">播放列表（共 {playlist.length} 首）</span>
+          <PlaylistSwitcher
+            playlists={library}
+            activeId={activePlaylistId}
+            onSelect={onSwitchPlaylist}
+            onCreate={onCreatePlaylist}
+            onRename={onRenamePlaylist}
+            onDuplicate={onDuplicatePlaylist}
+            onDelete={onDeletePlaylist}
+          />
           <div className="list-header__actions">
             <input
               ref={importInputRef}
@@ -468,35 +1062,154 @@ const PlaylistView = memo(
             </button>
           </div>
         </div>
+        {selectedKeys.size > 0 && (
+          <PlaylistBulkBar
+            selectedCount={selectedKeys.size}
+            totalCount={playlist.length}
+            moveTargets={library.filter((item) => item.id !== activePlaylistId)}
+            onToggleAll={handleToggleAll}
+            onPlayNext={() => onBulkPlayNext([...selectedKeys])}
+            onDownload={() => onBulkDownload([...selectedKeys])}
+            onMove={(playlistId) => onBulkMove([...selectedKeys], playlistId)}
+            onExport={() => onBulkExport([...selectedKeys])}
+            onRemove={() => onBulkRemove([...selectedKeys])}
+            onClear={clearSelection}
+          />
+        )}
         {playlist.length > 0 && (
           <div
-            className="virtualized-track-viewport"
+            className={`virtualized-track-viewport${drag ? ' is-reordering' : ''}`}
             role="listbox"
             aria-label="播放列表"
             aria-activedescendant={activeOptionId}
           >
-            <div className="virtualized-track-viewport__inner" style={{ height: totalHeight }}>
+            <div ref={innerRef} className="virtualized-track-viewport__inner" style={{ height: totalHeight }}>
               {visibleTracks}
+              {drag && dropIndex >= 0 && (
+                <div
+                  className="playlist-drop-indicator"
+                  style={{ top: `${dropIndex * rowStride}px`, height: TRACK_ITEM_HEIGHT }}
+                  aria-hidden="true"
+                />
+              )}
             </div>
           </div>
         )}
-        {!playlist.length && <div className="empty-state">播放列表为空，快去搜索一首喜欢的歌曲吧</div>}
+        {!playlist.length && <div className="empty-state">播放列表为空，快去搜索并添加喜欢的歌曲吧</div>}
       </div>
     )
   },
   (prev, next) =>
     prev.playlist === next.playlist &&
+    prev.library === next.library &&
+    prev.activePlaylistId === next.activePlaylistId &&
     prev.currentTrackId === next.currentTrackId &&
     prev.downloadQuality === next.downloadQuality &&
     prev.onSelect === next.onSelect &&
+    prev.onPlayNext === next.onPlayNext &&
+    prev.onAddToQueue === next.onAddToQueue &&
     prev.onDownload === next.onDownload &&
     prev.onRemove === next.onRemove &&
+    prev.onReorder === next.onReorder &&
     prev.onClear === next.onClear &&
     prev.onExport === next.onExport &&
     prev.onImportChange === next.onImportChange &&
-    prev.importInputRef === next.importInputRef,
+    prev.importInputRef === next.importInputRef &&
+    prev.onSwitchPlaylist === next.onSwitchPlaylist &&
+    prev.onCreatePlaylist === next.onCreatePlaylist &&
+    prev.onRenamePlaylist === next.onRenamePlaylist &&
+    prev.onDuplicatePlaylist === next.onDuplicatePlaylist &&
+    prev.onDeletePlaylist === next.onDeletePlaylist &&
+    prev.onBulkPlayNext === next.onBulkPlayNext &&
+    prev.onBulkDownload === next.onBulkDownload &&
+    prev.onBulkMove === next.onBulkMove &&
+    prev.onBulkExport === next.onBulkExport &&
+    prev.onBulkRemove === next.onBulkRemove,
 )
 
+interface QueueViewProps {
+  queue: PlaylistEntry[]
+  onSelect: (index: number) => void
+  onRemove: (trackKey: string) => void
+  onClear: () => void
+}
+
+// The Up Next queue stays short, so unlike the playlist it is rendered without virtualization.
+const QueueView = memo(({ queue, onSelect, onRemove, onClear }: QueueViewProps) => (
+  <div className="playlist-view queue-view" role="presentation">
+    <div className="list-header">
+      <span className="list-header__title">待播清单（共 {queue.length} 首）</span>
+      <div className="list-header__actions">
+        <button
+          type="button"
+          className="clear-playlist-btn"
+          onClick={onClear}
+          title="清空待播清单"
+          disabled={!queue.length}
+        >
+          <Trash2 aria-hidden="true" size={18} strokeWidth={1.8} />
+          <span>清空</span>
+        </button>
+      </div>
+    </div>
+    {queue.length > 0 ? (
+      <>
+        <div className="queue-view__list" role="listbox" aria-label="待播清单">
+          {queue.map((track, index) => {
+            const trackKey = getTrackKey(track)
+            return (
+              <div
+                key={trackKey}
+                role="option"
+                aria-selected={false}
+                className="track-item"
+                onClick={() => onSelect(index)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault()
+                    onSelect(index)
+                  }
+                }}
+                tabIndex={0}
+                title={`${track.title} · ${track.artists} · ${track.album}`}
+              >
+                <div className="track-thumb" aria-hidden="true">
+                  {track.artworkUrl ? (
+                    <img src={track.artworkUrl} alt="" loading="lazy" />
+                  ) : (
+                    <span className="track-letter">{track.title.charAt(0)}</span>
+                  )}
+                </div>
+                <div className="track-meta">
+                  <span className="track-title track__title">{track.title}</span>
+                  <span className="track-artist">{track.artists}</span>
+                </div>
+                <div className="song-actions">
+                  <button
+                    type="button"
+                    className="action-btn delete-action"
+                    onClick={(event) => {
+                      event.stopPropagation()
+                      onRemove(trackKey)
+                    }}
+                    aria-label={`从待播清单移除 ${track.title}`}
+                    title="移除"
+                  >
+                    <X aria-hidden="true" size={18} strokeWidth={1.9} />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+        <p className="queue-view__hint">待播清单中的歌曲播放完后，将继续按播放列表顺序播放</p>
+      </>
+    ) : (
+      <div className="empty-state">待播清单为空，可在搜索结果或播放列表中选择「下一首播放」或「添加到待播清单」</div>
+    )}
+  </div>
+))
+
 const iconShadow = 'drop-shadow(0 1px 2px rgba(0, 0, 0, 0.25))'
 
 const SpeakerLowIcon = memo(() => (
@@ -614,13 +1327,23 @@ function App() {
   const [isExplorePulsing, setIsExplorePulsing] = useState(false)
 
   const audioRef = useRef<HTMLAudioElement | null>(null)
+  const audioEngineRef = useRef<AudioEngine | null>(null)
   const cleanupRef = useRef<(() => void) | null>(null)
   const currentTrackRef = useRef<TrackDetails | null>(null)
   const playlistRef = useRef<PlaylistEntry[]>([])
   const activeIndexRef = useRef(-1)
   const playTrackRef = useRef<
-    ((details: PlaylistEntry, index: number, shouldAutoplay?: boolean) => Promise<void>) | null
+    | ((
+        details: PlaylistEntry,
+        index: number,
+        shouldAutoplay?: boolean,
+        trigger?: TrackAdvanceTrigger,
+        fromQueue?: boolean,
+      ) => Promise<void>)
+    | null
   >(null)
+  const upcomingTrackRef = useRef<UpcomingTrack | null>(null)
+  const prefetchRef = useRef<{ key: string; promise: Promise<TrackDetails> } | null>(null)
   const audioSetupRef = useRef(false)
   const explorePulseTimeoutRef = useRef<number | null>(null)
   const qualityToastEnabledRef = useRef(false)
@@ -634,21 +1357,64 @@ function App() {
   const [progress, setProgress] = useState(0)
   const [duration, setDuration] = useState(0)
   const [volume, setVolume] = useState(0.8)
+  const volumeRef = useRef(volume)
   const [activeLyricIndex, setActiveLyricIndex] = useState(0)
-  const [activePanel, setActivePanel] = useState<'playlist' | 'lyrics'>('lyrics')
+  const [lyricOffsets, setLyricOffsets] = useState<Record<string, number>>({})
+  const lyricOffsetsRef = useRef<Record<string, number>>({})
+  const [includeLyricSidecar, setIncludeLyricSidecar] = useState(false)
+  const [trackTransition, setTrackTransition] = useState<TrackTransitionSettings>(DEFAULT_TRACK_TRANSITION)
+  const trackTransitionRef = useRef(trackTransition)
+  const [equalizer, setEqualizer] = useState<EqualizerSettings>(DEFAULT_EQUALIZER)
+  const equalizerRef = useRef(equalizer)
+  const [equalizerPresets, setEqualizerPresets] = useState<EqualizerPreset[]>([])
+  const [isLoudnessNormalized, setIsLoudnessNormalized] = useState(false)
+  const isLoudnessNormalizedRef = useRef(isLoudnessNormalized)
+  const loudnessGainsRef = useRef<Record<string, number>>({})
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const playbackRateRef = useRef(playbackRate)
+  const [abLoop, setAbLoop] = useState<ABLoopRange | null>(null)
+  const abLoopRef = useRef(abLoop)
+  const abLoopTimerRef = useRef<number | null>(null)
+  const [visualizer, setVisualizer] = useState<VisualizerSettings>(DEFAULT_VISUALIZER)
+  const [sleepTimer, setSleepTimer] = useState<SleepTimerSetting | null>(null)
+  const sleepTimerRef = useRef(sleepTimer)
+  const isSleepFadingRef = useRef(false)
+  const [activePanel, setActivePanel] = useState<'playlist' | 'queue' | 'lyrics'>('lyrics')
+  const [isImmersive, setIsImmersive] = useState(false)
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement | null>(null)
   const [playlist, setPlaylist] = useState<PlaylistEntry[]>([])
+  const [queue, setQueue] = useState<PlaylistEntry[]>([])
+  const queueRef = useRef<PlaylistEntry[]>([])
+  // Queued tracks play outside the playlist; ordering resumes after this playlist track.
+  const queueAnchorRef = useRef<string | null>(null)
+  const isQueuePlaybackRef = useRef(false)
+  const [library, setLibrary] = useState<SavedPlaylist[]>(() => [
+    createSavedPlaylist(DEFAULT_PLAYLIST_ID, DEFAULT_PLAYLIST_NAME),
+  ])
+  const libraryRef = useRef(library)
+  const [activePlaylistId, setActivePlaylistId] = useState(DEFAULT_PLAYLIST_ID)
+  const activePlaylistIdRef = useRef(activePlaylistId)
+  const playlistSwitchTokenRef = useRef(0)
+  const [playlistPickerKey, setPlaylistPickerKey] = useState<string | null>(null)
   const [currentTrackId, setCurrentTrackId] = useState<string | null>(null)
   const [palette, setPalette] = useState<BackgroundPalette>(DEFAULT_PALETTE)
   const [generatedBg, setGeneratedBg] = useState<string | null>(null)
   const [displayedBg, setDisplayedBg] = useState<string | null>(null)
   const [isBackgroundVisible, setIsBackgroundVisible] = useState(true)
   const backgroundCacheRef = useRef<Record<string, string>>({})
+  const [isAnimatedBackground, setIsAnimatedBackground] = useState(false)
+  const [backgroundColors, setBackgroundColors] = useState<BackgroundColors | null>(null)
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches === true,
+  )
   const [isShuffle, setIsShuffle] = useState(false)
   const [repeatMode, setRepeatMode] = useState<'none' | 'one' | 'all'>('none')
   const shuffleHistoryRef = useRef<string[]>([])
   const shuffleEnabledRef = useRef(isShuffle)
   const repeatModeRef = useRef(repeatMode)
   const lyricsScrollRef = useRef<HTMLDivElement | null>(null)
+  const immersiveScrollRef = useRef<HTMLDivElement | null>(null)
   const searchBarRef = useRef<HTMLDivElement | null>(null)
   const importInputRef = useRef<HTMLInputElement | null>(null)
 
@@ -691,6 +1457,18 @@ function App() {
       playlistRef.current = savedPlaylist
     }
 
+    // Before the library existed the single saved playlist became the default entry, which
+    // is exactly what an empty library falls back to.
+    const savedLibrary = sanitizeSavedPlaylists(readJSON<unknown>(STORAGE_KEYS.playlistLibrary))
+    if (savedLibrary.length) {
+      const savedActiveId = storage.getItem(STORAGE_KEYS.activePlaylistId)
+      const active = savedLibrary.find((item) => item.id === savedActiveId) ?? savedLibrary[0]
+      libraryRef.current = savedLibrary
+      setLibrary(savedLibrary)
+      activePlaylistIdRef.current = active.id
+      setActivePlaylistId(active.id)
+    }
+
     const savedTrack = readJSON<TrackDetails>(STORAGE_KEYS.currentTrack)
     if (savedTrack && typeof savedTrack.id === 'string') {
       setCurrentTrack(savedTrack)
@@ -732,6 +1510,73 @@ function App() {
       setIsShuffle(savedShuffle === 'true')
     }
 
+    const savedLyricOffsets = readJSON<Record<string, number>>(STORAGE_KEYS.lyricOffsets)
+    if (savedLyricOffsets && typeof savedLyricOffsets === 'object') {
+      const sanitized: Record<string, number> = {}
+      for (const [key, value] of Object.entries(savedLyricOffsets)) {
+        if (typeof value === 'number' && Number.isFinite(value) && value !== 0) {
+          sanitized[key] = value
+        }
+      }
+      lyricOffsetsRef.current = sanitized
+      setLyricOffsets(sanitized)
+    }
+
+    const savedLyricSidecar = storage.getItem(STORAGE_KEYS.lyricSidecar)
+    if (savedLyricSidecar === 'true' || savedLyricSidecar === 'false') {
+      setIncludeLyricSidecar(savedLyricSidecar === 'true')
+    }
+
+    const savedTransition = readJSON<TrackTransitionSettings>(STORAGE_KEYS.trackTransition)
+    if (savedTransition && VALID_TRANSITION_MODES.has(savedTransition.mode)) {
+      const seconds = Number(savedTransition.crossfadeSeconds)
+      setTrackTransition({
+        mode: savedTransition.mode,
+        crossfadeSeconds: Number.isFinite(seconds)
+          ? Math.min(Math.max(seconds, CROSSFADE_MIN_SECONDS), CROSSFADE_MAX_SECONDS)
+          : DEFAULT_TRACK_TRANSITION.crossfadeSeconds,
+      })
+    }
+
+    const savedEqualizer = sanitizeEqualizerSettings(readJSON<unknown>(STORAGE_KEYS.equalizer))
+    if (savedEqualizer) {
+      setEqualizer(savedEqualizer)
+    }
+
+    const savedEqualizerPresets = sanitizeEqualizerPresets(readJSON<unknown>(STORAGE_KEYS.equalizerPresets))
+    if (savedEqualizerPresets.length) {
+      setEqualizerPresets(savedEqualizerPresets)
+    }
+
+    const savedNormalization = storage.getItem(STORAGE_KEYS.loudnessNormalization)
+    if (savedNormalization === 'true' || savedNormalization === 'false') {
+      setIsLoudnessNormalized(savedNormalization === 'true')
+    }
+
+    const savedLoudnessGains = readJSON<Record<string, number>>(STORAGE_KEYS.loudnessGains)
+    if (savedLoudnessGains && typeof savedLoudnessGains === 'object') {
+      loudnessGainsRef.current = Object.fromEntries(
+        Object.entries(savedLoudnessGains).filter(
+          ([, value]) => typeof value === 'number' && Number.isFinite(value),
+        ),
+      )
+    }
+
+    const savedAnimatedBackground = storage.getItem(STORAGE_KEYS.animatedBackground)
+    if (savedAnimatedBackground === 'true' || savedAnimatedBackground === 'false') {
+      setIsAnimatedBackground(savedAnimatedBackground === 'true')
+    }
+
+    const savedVisualizer = sanitizeVisualizerSettings(readJSON<unknown>(STORAGE_KEYS.visualizer))
+    if (savedVisualizer) {
+      setVisualizer(savedVisualizer)
+    }
+
+    const savedPlaybackRate = Number(storage.getItem(STORAGE_KEYS.playbackRate))
+    if (PLAYBACK_RATES.includes(savedPlaybackRate)) {
+      setPlaybackRate(savedPlaybackRate)
+    }
+
     const savedQuality = storage.getItem(STORAGE_KEYS.audioQuality)
     if (savedQuality && VALID_AUDIO_QUALITIES.has(savedQuality as AudioQuality)) {
       setAudioQuality(savedQuality as AudioQuality)
@@ -845,7 +1690,34 @@ function App() {
   }, [playlist])
 
   useEffect(() => {
-    activeIndexRef.current = playlist.findIndex((track) => getTrackKey(track) === currentTrackId)
+    libraryRef.current = library
+    if (typeof window === 'undefined') {
+      return
+    }
+    window.localStorage.setItem(STORAGE_KEYS.playlistLibrary, JSON.stringify(library))
+  }, [library])
+
+  useEffect(() => {
+    activePlaylistIdRef.current = activePlaylistId
+    if (typeof window === 'undefined') {
+      return
+    }
+    window.localStorage.setItem(STORAGE_KEYS.activePlaylistId, activePlaylistId)
+  }, [activePlaylistId])
+
+  const playlistSummaries = useMemo<PlaylistSummary[]>(
+    () =>
+      library.map((item) => ({
+        id: item.id,
+        name: item.name,
+        count: item.id === activePlaylistId ? playlist.length : item.tracks.length,
+      })),
+    [activePlaylistId, library, playlist.length],
+  )
+
+  useEffect(() => {
+    const anchorKey = isQueuePlaybackRef.current ? queueAnchorRef.current : currentTrackId
+    activeIndexRef.current = playlist.findIndex((track) => getTrackKey(track) === anchorKey)
   }, [playlist, currentTrackId])
 
   useEffect(() => {
@@ -862,6 +1734,8 @@ function App() {
 
   useEffect(() => {
     shuffleEnabledRef.current = isShuffle
+    upcomingTrackRef.current = null
+    audioEngineRef.current?.rearm()
     if (!isShuffle) {
       shuffleHistoryRef.current = []
     }
@@ -872,6 +1746,8 @@ function App() {
 
   useEffect(() => {
     repeatModeRef.current = repeatMode
+    upcomingTrackRef.current = null
+    audioEngineRef.current?.rearm()
     if (typeof window !== 'undefined') {
       window.localStorage.setItem(STORAGE_KEYS.repeatMode, repeatMode)
     }
@@ -886,40 +1762,133 @@ function App() {
   }, [audioQuality])
 
   useEffect(() => {
-    if (!qualityToastEnabledRef.current) {
+    lyricOffsetsRef.current = lyricOffsets
+    if (typeof window === 'undefined') {
       return
     }
-    const label = AUDIO_QUALITY_TOAST_LABELS[audioQuality] ?? '标准音质'
-    showNotification(`音质已切换为 ${label}`, 'success')
-  }, [audioQuality])
+
+    if (Object.keys(lyricOffsets).length) {
+      window.localStorage.setItem(STORAGE_KEYS.lyricOffsets, JSON.stringify(lyricOffsets))
+    } else {
+      window.localStorage.removeItem(STORAGE_KEYS.lyricOffsets)
+    }
+  }, [lyricOffsets])
 
   useEffect(() => {
-    const current = currentTrackRef.current
-    if (!current) {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.lyricSidecar, String(includeLyricSidecar))
+    }
+  }, [includeLyricSidecar])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
       return
     }
+    trackTransitionRef.current = trackTransition
+    audioEngineRef.current?.setTransition(trackTransition)
+    window.localStorage.setItem(STORAGE_KEYS.trackTransition, JSON.stringify(trackTransition))
+  }, [trackTransition])
 
-    const controller = new AbortController()
-    const currentKey = getTrackKey(current)
-    let detachLoaded: (() => void) | null = null
+  useEffect(() => {
+    playbackRateRef.current = playbackRate
+    audioEngineRef.current?.setPlaybackRate(playbackRate)
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.playbackRate, String(playbackRate))
+    }
+  }, [playbackRate])
 
-    const updateQuality = async () => {
-      setIsBuffering(true)
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.visualizer, JSON.stringify(visualizer))
+    }
+  }, [visualizer])
 
-      try {
-        const bitrate = QUALITY_TO_BR[audioQuality]
-        const urlInfo = await fetchJson<{ url: string }>(
-          `${API_BASE}?types=url&source=${current.source || DEFAULT_SOURCE}&id=${current.id}&br=${bitrate}`,
-          controller.signal,
-        )
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.animatedBackground, String(isAnimatedBackground))
+    }
+  }, [isAnimatedBackground])
 
-        if (controller.signal.aborted) {
-          return
-        }
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+      return
+    }
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)')
+    const handleChange = (event: MediaQueryListEvent) => setPrefersReducedMotion(event.matches)
+    query.addEventListener('change', handleChange)
+    return () => query.removeEventListener('change', handleChange)
+  }, [])
 
-        const latest = currentTrackRef.current
-        if (!latest || getTrackKey(latest) !== currentKey) {
-          return
+  useEffect(() => {
+    abLoopRef.current = abLoop
+  }, [abLoop])
+
+  useEffect(() => {
+    sleepTimerRef.current = sleepTimer
+  }, [sleepTimer])
+
+  useEffect(() => {
+    equalizerRef.current = equalizer
+    audioEngineRef.current?.setEqualizer(equalizer)
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.equalizer, JSON.stringify(equalizer))
+    }
+  }, [equalizer])
+
+  useEffect(() => {
+    isLoudnessNormalizedRef.current = isLoudnessNormalized
+    audioEngineRef.current?.setNormalization(isLoudnessNormalized)
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.loudnessNormalization, String(isLoudnessNormalized))
+    }
+  }, [isLoudnessNormalized])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    if (equalizerPresets.length) {
+      window.localStorage.setItem(STORAGE_KEYS.equalizerPresets, JSON.stringify(equalizerPresets))
+    } else {
+      window.localStorage.removeItem(STORAGE_KEYS.equalizerPresets)
+    }
+  }, [equalizerPresets])
+
+  useEffect(() => {
+    if (!qualityToastEnabledRef.current) {
+      return
+    }
+    const label = AUDIO_QUALITY_TOAST_LABELS[audioQuality] ?? '标准音质'
+    showNotification(`音质已切换为 ${label}`, 'success')
+  }, [audioQuality])
+
+  useEffect(() => {
+    const current = currentTrackRef.current
+    if (!current) {
+      return
+    }
+
+    const controller = new AbortController()
+    const currentKey = getTrackKey(current)
+    let detachLoaded: (() => void) | null = null
+
+    const updateQuality = async () => {
+      setIsBuffering(true)
+
+      try {
+        const bitrate = QUALITY_TO_BR[audioQuality]
+        const urlInfo = await fetchJson<{ url: string }>(
+          `${API_BASE}?types=url&source=${current.source || DEFAULT_SOURCE}&id=${current.id}&br=${bitrate}`,
+          controller.signal,
+        )
+
+        if (controller.signal.aborted) {
+          return
+        }
+
+        const latest = currentTrackRef.current
+        if (!latest || getTrackKey(latest) !== currentKey) {
+          return
         }
 
         setError(null)
@@ -1049,6 +2018,10 @@ function App() {
   }, [isSearching, searchResults.length])
 
   const trackCacheKey = currentTrack ? getTrackKey(currentTrack) : null
+
+  useEffect(() => {
+    setAbLoop(null)
+  }, [trackCacheKey])
   const artworkUrl = currentTrack?.artworkUrl
 
   useEffect(() => {
@@ -1078,6 +2051,37 @@ function App() {
     }
   }, [artworkUrl])
 
+  // Reduced motion keeps the static image; the animated mode is never mounted then.
+  const showAnimatedBackground = isAnimatedBackground && !prefersReducedMotion
+
+  useEffect(() => {
+    if (!showAnimatedBackground) {
+      return
+    }
+    if (!artworkUrl) {
+      setBackgroundColors(null)
+      return
+    }
+
+    let isCancelled = false
+    extractBackgroundColors(artworkUrl)
+      .then((colors) => {
+        if (!isCancelled) {
+          setBackgroundColors(colors)
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          console.warn('Failed to extract background colors', error)
+          setBackgroundColors(null)
+        }
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [artworkUrl, showAnimatedBackground])
+
   useEffect(() => {
     if (!artworkUrl || !trackCacheKey) {
       setGeneratedBg(null)
@@ -1113,9 +2117,8 @@ function App() {
   }, [artworkUrl, trackCacheKey])
 
   useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.volume = volume
-    }
+    volumeRef.current = volume
+    audioEngineRef.current?.setVolume(volume)
     if (typeof window !== 'undefined') {
       window.localStorage.setItem(STORAGE_KEYS.volume, String(volume))
     }
@@ -1172,63 +2175,159 @@ function App() {
     }
   }, [query, searchSource, searchLimit])
 
-  const teardownAudio = useCallback(() => {
+  const getAudioEngine = useCallback(() => {
+    if (!audioEngineRef.current) {
+      // Kuwo hosts send no CORS headers, so their audio has to go through `/proxy` for Web Audio.
+      const engine = createAudioEngine({ resolveUrl: proxifyAudioUrl })
+      engine.setVolume(volumeRef.current)
+      engine.setPlaybackRate(playbackRateRef.current)
+      engine.setTransition(trackTransitionRef.current)
+      engine.setEqualizer(equalizerRef.current)
+      engine.setNormalization(isLoudnessNormalizedRef.current)
+      audioEngineRef.current = engine
+    }
+    return audioEngineRef.current
+  }, [])
+
+  const getVisualizerAnalyser = useCallback(() => audioEngineRef.current?.getAnalyser() ?? null, [])
+
+  const detachAudio = useCallback(() => {
     cleanupRef.current?.()
     cleanupRef.current = null
     if (typeof window !== 'undefined' && timeUpdateFrameRef.current !== null) {
       window.cancelAnimationFrame(timeUpdateFrameRef.current)
       timeUpdateFrameRef.current = null
     }
+  }, [])
+
+  const teardownAudio = useCallback(() => {
+    detachAudio()
+    upcomingTrackRef.current = null
     if (audioRef.current) {
-      audioRef.current.pause()
-      audioRef.current.src = ''
-      audioRef.current.load()
+      audioEngineRef.current?.stop()
       audioRef.current = null
     }
+  }, [detachAudio])
+
+  const syncActiveLyric = useCallback((time: number) => {
+    const track = currentTrackRef.current
+    if (!track || !track.lyrics.length) {
+      return
+    }
+    const offset = (lyricOffsetsRef.current[getTrackKey(track)] ?? 0) / 1000
+    // The look-ahead is wall-clock time, so it covers more of the track when sped up.
+    const lookahead = LYRIC_LOOKAHEAD_SECONDS * playbackRateRef.current
+    const { index } = getLyricTimeline(track.lyrics).locate(time + lookahead + offset)
+    setActiveLyricIndex((prev) => (prev === index ? prev : index))
   }, [])
 
-  const handleTimeUpdate = useCallback((audio: HTMLAudioElement) => {
-    if (typeof window === 'undefined') {
-      setProgress(audio.currentTime)
-      const track = currentTrackRef.current
-      if (!track || !track.lyrics.length) {
+  const handleTimeUpdate = useCallback(
+    (audio: HTMLAudioElement) => {
+      if (typeof window === 'undefined') {
+        setProgress(audio.currentTime)
+        syncActiveLyric(audio.currentTime)
         return
       }
-      const current = audio.currentTime + 0.25
-      let nextIndex = track.lyrics.findIndex((line) => current < line.time)
-      if (nextIndex === -1) {
-        nextIndex = track.lyrics.length
+
+      if (timeUpdateFrameRef.current !== null) {
+        window.cancelAnimationFrame(timeUpdateFrameRef.current)
       }
-      const computed = Math.max(0, nextIndex - 1)
-      setActiveLyricIndex((prev) => (prev === computed ? prev : computed))
-      return
+
+      timeUpdateFrameRef.current = window.requestAnimationFrame(() => {
+        setProgress(audio.currentTime)
+        syncActiveLyric(audio.currentTime)
+        timeUpdateFrameRef.current = null
+      })
+    },
+    [syncActiveLyric],
+  )
+
+  const clearABLoopTimer = useCallback(() => {
+    if (typeof window !== 'undefined' && abLoopTimerRef.current !== null) {
+      window.clearTimeout(abLoopTimerRef.current)
+      abLoopTimerRef.current = null
     }
+  }, [])
 
-    if (timeUpdateFrameRef.current !== null) {
-      window.cancelAnimationFrame(timeUpdateFrameRef.current)
+  // Sends playback back to point A once point B is reached. Returns whether it jumped.
+  const enforceABLoop = useCallback(
+    (audio: HTMLAudioElement) => {
+      clearABLoopTimer()
+      const loop = abLoopRef.current
+      if (!loop || loop.end === null) {
+        return false
+      }
+      if (audio.currentTime >= loop.end) {
+        audio.currentTime = loop.start
+        return true
+      }
+      // `timeupdate` only fires every ~250ms, so the jump itself runs on a timer.
+      const remaining = (loop.end - audio.currentTime) / (audio.playbackRate || 1)
+      if (typeof window !== 'undefined' && !audio.paused && remaining <= AB_LOOP_TIMER_WINDOW_SECONDS) {
+        abLoopTimerRef.current = window.setTimeout(() => {
+          abLoopTimerRef.current = null
+          if (abLoopRef.current === loop && !audio.paused) {
+            audio.currentTime = loop.start
+          }
+        }, remaining * 1000)
+      }
+      return false
+    },
+    [clearABLoopTimer],
+  )
+
+  const completeSleepTimer = useCallback(() => {
+    if (!sleepTimerRef.current) {
+      return
     }
+    sleepTimerRef.current = null
+    setSleepTimer(null)
+    showNotification('睡眠定时已到，播放已暂停', 'info')
+  }, [])
 
-    timeUpdateFrameRef.current = window.requestAnimationFrame(() => {
-      setProgress(audio.currentTime)
-      const track = currentTrackRef.current
-      if (!track || !track.lyrics.length) {
-        timeUpdateFrameRef.current = null
+  const fireSleepTimer = useCallback(
+    (fadeSeconds: number) => {
+      if (isSleepFadingRef.current) {
+        return
+      }
+      isSleepFadingRef.current = true
+      getAudioEngine()
+        .fadeOutAndPause(fadeSeconds)
+        .then((paused) => {
+          isSleepFadingRef.current = false
+          if (paused) {
+            completeSleepTimer()
+          }
+        })
+        .catch(() => {
+          isSleepFadingRef.current = false
+        })
+    },
+    [completeSleepTimer, getAudioEngine],
+  )
+
+  // A track-count timer on its last track starts fading so the pause lands on the track's end.
+  const checkSleepTimer = useCallback(
+    (audio: HTMLAudioElement) => {
+      const timer = sleepTimerRef.current
+      if (timer?.kind !== 'tracks' || timer.remaining > 1 || audio.paused || !Number.isFinite(audio.duration)) {
         return
       }
-      const current = audio.currentTime + 0.25
-      let nextIndex = track.lyrics.findIndex((line) => current < line.time)
-      if (nextIndex === -1) {
-        nextIndex = track.lyrics.length
+      const remaining = (audio.duration - audio.currentTime) / (audio.playbackRate || 1)
+      if (remaining <= SLEEP_FADE_SECONDS) {
+        fireSleepTimer(remaining)
       }
-      const computed = Math.max(0, nextIndex - 1)
-      setActiveLyricIndex((prev) => (prev === computed ? prev : computed))
-      timeUpdateFrameRef.current = null
-    })
-  }, [])
+    },
+    [fireSleepTimer],
+  )
 
   const attachAudio = useCallback(
     (audio: HTMLAudioElement, onEnded: () => void): void => {
-      const onTimeUpdate = () => handleTimeUpdate(audio)
+      const onTimeUpdate = () => {
+        enforceABLoop(audio)
+        checkSleepTimer(audio)
+        handleTimeUpdate(audio)
+      }
       const onLoaded = () => {
         setDuration(Number.isFinite(audio.duration) ? audio.duration : 0)
       }
@@ -1237,6 +2336,10 @@ function App() {
       const onWaiting = () => setIsBuffering(true)
       const onPlaying = () => setIsBuffering(false)
       const handleEnded = () => {
+        if (enforceABLoop(audio)) {
+          audio.play().catch(() => undefined)
+          return
+        }
         setIsPlaying(false)
         onEnded()
       }
@@ -1249,6 +2352,11 @@ function App() {
       audio.addEventListener('playing', onPlaying)
       audio.addEventListener('ended', handleEnded)
 
+      // A preloaded deck has usually fired `loadedmetadata` before it is attached.
+      if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        onLoaded()
+      }
+
       cleanupRef.current = () => {
         audio.removeEventListener('timeupdate', onTimeUpdate)
         audio.removeEventListener('loadedmetadata', onLoaded)
@@ -1257,86 +2365,155 @@ function App() {
         audio.removeEventListener('waiting', onWaiting)
         audio.removeEventListener('playing', onPlaying)
         audio.removeEventListener('ended', handleEnded)
+        clearABLoopTimer()
         if (typeof window !== 'undefined' && timeUpdateFrameRef.current !== null) {
           window.cancelAnimationFrame(timeUpdateFrameRef.current)
           timeUpdateFrameRef.current = null
         }
       }
     },
-    [handleTimeUpdate],
+    [checkSleepTimer, clearABLoopTimer, enforceABLoop, handleTimeUpdate],
   )
 
-  const handleAutoAdvance = useCallback(() => {
+  // Applies the shuffle/repeat rules to choose what follows the current track. It has
+  // no side effects so the choice can be made early and the track preloaded.
+  const pickAutoAdvanceIndex = useCallback((): number | null => {
     const list = playlistRef.current
     if (!list.length) {
-      return
-    }
-
-    const play = playTrackRef.current
-    if (!play) {
-      return
+      return null
     }
 
     const currentIndex = activeIndexRef.current
     const repeatState = repeatModeRef.current
-    const shuffleOn = shuffleEnabledRef.current
 
     if (repeatState === 'one') {
-      let repeatIndex = currentIndex
-      if (repeatIndex < 0 && currentTrackRef.current) {
-        const currentTrack = currentTrackRef.current
-        repeatIndex = list.findIndex((item) => getTrackKey(item) === getTrackKey(currentTrack))
+      if (isQueuePlaybackRef.current) {
+        return null
       }
-      const repeatTrack =
-        (repeatIndex >= 0 && repeatIndex < list.length ? list[repeatIndex] : null) ??
-        currentTrackRef.current
-      if (repeatTrack) {
-        play(repeatTrack, repeatIndex >= 0 ? repeatIndex : 0).catch(() => undefined)
+      const currentTrack = currentTrackRef.current
+      const repeatIndex =
+        currentIndex < 0 && currentTrack
+          ? list.findIndex((item) => getTrackKey(item) === getTrackKey(currentTrack))
+          : currentIndex
+      return repeatIndex >= 0 && repeatIndex < list.length ? repeatIndex : null
+    }
+
+    if (shuffleEnabledRef.current) {
+      const availableIndexes = list.map((_, idx) => idx).filter((idx) => idx !== currentIndex)
+      if (availableIndexes.length) {
+        return availableIndexes[Math.floor(Math.random() * availableIndexes.length)]
       }
+      return repeatState === 'all' && currentIndex >= 0 ? currentIndex : null
+    }
+
+    const nextIndex = currentIndex + 1
+    if (nextIndex < list.length) {
+      return nextIndex
+    }
+    return repeatState === 'all' ? 0 : null
+  }, [])
+
+  const getUpcomingEntry = useCallback(
+    (upcoming: UpcomingTrack): PlaylistEntry | undefined =>
+      (upcoming.fromQueue ? queueRef.current : playlistRef.current)[upcoming.index],
+    [],
+  )
+
+  // The Up Next queue always goes before the playlist, except that repeat-one keeps
+  // replaying the current track.
+  const resolveUpcomingTrack = useCallback((): UpcomingTrack | null => {
+    const upcoming = upcomingTrackRef.current
+    const upcomingEntry = upcoming ? getUpcomingEntry(upcoming) : undefined
+    if (upcoming && upcomingEntry && getTrackKey(upcomingEntry) === upcoming.key) {
+      return upcoming
+    }
+
+    const queued = queueRef.current[0]
+    if (queued && repeatModeRef.current !== 'one') {
+      upcomingTrackRef.current = { index: 0, key: getTrackKey(queued), fromQueue: true }
+      return upcomingTrackRef.current
+    }
+
+    const index = pickAutoAdvanceIndex()
+    upcomingTrackRef.current = index === null ? null : { index, key: getTrackKey(playlistRef.current[index]) }
+    return upcomingTrackRef.current
+  }, [getUpcomingEntry, pickAutoAdvanceIndex])
+
+  // Takes a track out of the queue and plays it without touching the playlist or its position.
+  const playQueuedTrack = useCallback((position: number, trigger?: TrackAdvanceTrigger) => {
+    const play = playTrackRef.current
+    const target = queueRef.current[position]
+    if (!play || !target) {
       return
     }
 
-    let targetIndex: number | null = null
+    if (!isQueuePlaybackRef.current) {
+      const anchor = playlistRef.current[activeIndexRef.current]
+      queueAnchorRef.current = anchor ? getTrackKey(anchor) : null
+    }
+    const nextQueue = queueRef.current.filter((_, index) => index !== position)
+    queueRef.current = nextQueue
+    setQueue(nextQueue)
+    play(target, activeIndexRef.current, true, trigger, true).catch(() => undefined)
+  }, [])
 
-    if (shuffleOn && list.length) {
-      const availableIndexes = list.map((_, idx) => idx).filter((idx) => idx !== currentIndex)
-      if (availableIndexes.length) {
-        targetIndex = availableIndexes[Math.floor(Math.random() * availableIndexes.length)]
-      } else if (repeatState === 'all' && currentIndex >= 0) {
-        targetIndex = currentIndex
-      }
-      if (
-        targetIndex !== null &&
-        currentIndex !== -1 &&
-        targetIndex >= 0 &&
-        targetIndex < list.length &&
-        targetIndex !== currentIndex
-      ) {
+  const commitAutoAdvance = useCallback(
+    (upcoming: UpcomingTrack, trigger: TrackAdvanceTrigger = 'auto') => {
+      const list = playlistRef.current
+      const play = playTrackRef.current
+      const target = getUpcomingEntry(upcoming)
+      if (!play || !target) {
+        return
+      }
+
+      upcomingTrackRef.current = null
+      const sleepTimer = sleepTimerRef.current
+      if (trigger === 'auto' && sleepTimer?.kind === 'tracks') {
+        const next: SleepTimerSetting = { kind: 'tracks', remaining: sleepTimer.remaining - 1 }
+        sleepTimerRef.current = next
+        setSleepTimer(next)
+      }
+      if (upcoming.fromQueue) {
+        playQueuedTrack(upcoming.index, trigger)
+        return
+      }
+      const currentIndex = activeIndexRef.current
+      if (shuffleEnabledRef.current && currentIndex !== -1 && upcoming.index !== currentIndex) {
         const currentTrack = list[currentIndex]
         if (currentTrack) {
           shuffleHistoryRef.current.push(getTrackKey(currentTrack))
         }
       }
-    } else if (list.length) {
-      const nextIndex = currentIndex + 1
-      if (nextIndex < list.length) {
-        targetIndex = nextIndex
-      } else if (repeatState === 'all') {
-        targetIndex = 0
-      }
+
+      play(target, upcoming.index, true, trigger).catch(() => undefined)
+    },
+    [getUpcomingEntry, playQueuedTrack],
+  )
+
+  const handleAutoAdvance = useCallback(() => {
+    const play = playTrackRef.current
+    if (!play) {
+      return
     }
 
-    if (targetIndex === null || targetIndex === undefined) {
+    const sleepTimer = sleepTimerRef.current
+    if (sleepTimer?.kind === 'tracks' && sleepTimer.remaining <= 1) {
+      completeSleepTimer()
       return
     }
 
-    if (targetIndex >= 0 && targetIndex < list.length) {
-      const nextTrack = list[targetIndex]
-      if (nextTrack) {
-        play(nextTrack, targetIndex).catch(() => undefined)
-      }
+    const upcoming = resolveUpcomingTrack()
+    if (upcoming) {
+      commitAutoAdvance(upcoming)
+      return
     }
-  }, [])
+
+    // Repeat-one on a queued track, or one that has left the playlist, simply replays it.
+    const currentTrack = currentTrackRef.current
+    if (repeatModeRef.current === 'one' && currentTrack) {
+      play(currentTrack, activeIndexRef.current, true, 'auto', isQueuePlaybackRef.current).catch(() => undefined)
+    }
+  }, [commitAutoAdvance, completeSleepTimer, resolveUpcomingTrack])
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -1349,14 +2526,9 @@ function App() {
 
     audioSetupRef.current = true
 
-    let audio = audioRef.current
-    if (!audio) {
-      audio = new Audio()
-      audioRef.current = audio
-    }
-
-    audio.crossOrigin = 'anonymous'
-    audio.volume = volume
+    const engine = getAudioEngine()
+    const audio = engine.element
+    audioRef.current = audio
 
     cleanupRef.current?.()
     attachAudio(audio, handleAutoAdvance)
@@ -1366,7 +2538,7 @@ function App() {
       try {
         const savedTrack = JSON.parse(savedTrackRaw) as TrackDetails
         if (savedTrack && savedTrack.audioUrl) {
-          audio.src = savedTrack.audioUrl
+          engine.load(savedTrack.audioUrl, getTrackKey(savedTrack))
           currentTrackRef.current = savedTrack
           setCurrentTrack(savedTrack)
           if (typeof savedTrack.duration === 'number' && Number.isFinite(savedTrack.duration)) {
@@ -1380,9 +2552,9 @@ function App() {
     }
 
     if (currentTrackRef.current?.audioUrl) {
-      audio.src = currentTrackRef.current.audioUrl
+      engine.load(currentTrackRef.current.audioUrl, getTrackKey(currentTrackRef.current))
     }
-  }, [attachAudio, handleAutoAdvance, volume])
+  }, [attachAudio, getAudioEngine, handleAutoAdvance])
 
   const buildTrackDetails = useCallback(
     async (track: SearchResult | PlaylistEntry): Promise<TrackDetails> => {
@@ -1397,7 +2569,7 @@ function App() {
         fetchJson<{ url?: string | null }>(
           `${API_BASE}?types=url&source=${source}&id=${track.id}&br=${bitrate}`,
         ),
-        fetchJson<{ lyric?: string | null; tlyric?: string | null }>(
+        fetchJson<{ lyric?: string | null; tlyric?: string | null; romalrc?: string | null }>(
           `${API_BASE}?types=lyric&source=${source}&id=${lyricId}`,
         ),
         fetchJson<{ url?: string }>(`${API_BASE}?types=pic&source=${source}&id=${picId}&size=500`),
@@ -1408,7 +2580,8 @@ function App() {
         throw new Error(INVALID_AUDIO_SOURCE_ERROR)
       }
 
-      const lyrics = mergeLyrics(lyricInfo.lyric, lyricInfo.tlyric)
+      const lyrics = mergeLyrics(lyricInfo.lyric, lyricInfo.tlyric, lyricInfo.romalrc)
+      const lyricMetadata = parseLrcMetadata(lyricInfo.lyric)
       const artworkUrl = picInfo.url ?? ('artworkUrl' in track ? track.artworkUrl ?? '' : '')
 
       const proxiedAudioUrl = proxifyAudioUrl(rawAudioUrl)
@@ -1422,6 +2595,7 @@ function App() {
         artworkUrl,
         audioUrl: proxiedAudioUrl,
         lyrics,
+        lyricMetadata,
         duration: 'duration' in track ? track.duration : undefined,
         lyricId: lyricId ? String(lyricId) : undefined,
         picId: picId ? String(picId) : undefined,
@@ -1430,29 +2604,140 @@ function App() {
     [audioQuality],
   )
 
+  const handleLoudnessMeasured = useCallback((key: string, gainDb: number) => {
+    // Re-inserting the key keeps entries in measurement order, so trimming drops the oldest.
+    const entries = Object.entries(loudnessGainsRef.current).filter(([existing]) => existing !== key)
+    const next = Object.fromEntries([
+      ...entries.slice(Math.max(0, entries.length - LOUDNESS_CACHE_LIMIT + 1)),
+      [key, Math.round(gainDb * 10) / 10],
+    ])
+    loudnessGainsRef.current = next
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(STORAGE_KEYS.loudnessGains, JSON.stringify(next))
+    }
+  }, [])
+
+  // Hydrates the upcoming track in the background so advancing needs no API round trips.
+  const prefetchUpcomingTrack = useCallback(
+    async (upcoming: UpcomingTrack) => {
+      const entry = getUpcomingEntry(upcoming)
+      if (!entry || prefetchRef.current?.key === upcoming.key) {
+        return
+      }
+      if (apiRateLimiter.remaining() < PREFETCH_REQUEST_COST + PREFETCH_REQUEST_RESERVE) {
+        return
+      }
+
+      const promise = buildTrackDetails(entry).then((hydrated): TrackDetails => ({ ...entry, ...hydrated }))
+      prefetchRef.current = { key: upcoming.key, promise }
+
+      try {
+        const details = await promise
+        const hydrate = (track: PlaylistEntry) =>
+          getTrackKey(track) === upcoming.key && !track.audioUrl ? details : track
+        if (upcoming.fromQueue) {
+          queueRef.current = queueRef.current.map(hydrate)
+          setQueue(queueRef.current)
+        } else {
+          playlistRef.current = playlistRef.current.map(hydrate)
+          setPlaylist(playlistRef.current)
+        }
+        if (details.artworkUrl) {
+          new Image().src = details.artworkUrl
+        }
+        if (upcomingTrackRef.current?.key === upcoming.key) {
+          audioEngineRef.current?.preload(details.audioUrl, upcoming.key)
+        }
+      } catch (error) {
+        console.warn('Failed to prefetch upcoming track', error)
+      } finally {
+        if (prefetchRef.current?.promise === promise) {
+          prefetchRef.current = null
+        }
+      }
+    },
+    [buildTrackDetails, getUpcomingEntry],
+  )
+
+  const handlePreloadDue = useCallback(() => {
+    const upcoming = resolveUpcomingTrack()
+    const target = upcoming ? getUpcomingEntry(upcoming) : null
+    if (!upcoming || !target) {
+      return
+    }
+    if (target.audioUrl) {
+      audioEngineRef.current?.preload(target.audioUrl, upcoming.key)
+    } else {
+      prefetchUpcomingTrack(upcoming).catch(() => undefined)
+    }
+  }, [getUpcomingEntry, prefetchUpcomingTrack, resolveUpcomingTrack])
+
+  // Only hand over early when the upcoming track is already buffered; otherwise the
+  // regular `ended` path loads it.
+  const handleTransitionDue = useCallback(() => {
+    const upcoming = upcomingTrackRef.current
+    const target = upcoming ? getUpcomingEntry(upcoming) : null
+    if (
+      (abLoopRef.current && abLoopRef.current.end !== null) ||
+      (sleepTimerRef.current?.kind === 'tracks' && sleepTimerRef.current.remaining <= 1) ||
+      !upcoming ||
+      !target?.audioUrl ||
+      getTrackKey(target) !== upcoming.key ||
+      !audioEngineRef.current?.isPreloaded(target.audioUrl)
+    ) {
+      return
+    }
+    commitAutoAdvance(upcoming)
+  }, [commitAutoAdvance, getUpcomingEntry])
+
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+    getAudioEngine().setHandlers({
+      onPreloadDue: handlePreloadDue,
+      onTransitionDue: handleTransitionDue,
+      getCachedGain: (key) => loudnessGainsRef.current[key],
+      onLoudnessMeasured: handleLoudnessMeasured,
+    })
+  }, [getAudioEngine, handleLoudnessMeasured, handlePreloadDue, handleTransitionDue])
+
   const activateTrack = useCallback(
-    async (details: TrackDetails, shouldAutoplay: boolean) => {
+    async (details: TrackDetails, shouldAutoplay: boolean, trigger?: TrackAdvanceTrigger) => {
       currentTrackRef.current = details
       setCurrentTrack(details)
 
-      teardownAudio()
-      const audio = new Audio(details.audioUrl)
-      audio.crossOrigin = 'anonymous'
-      audio.volume = volume
+      detachAudio()
+      const engine = getAudioEngine()
+      const trackKey = getTrackKey(details)
+      const audio =
+        trigger && shouldAutoplay
+          ? engine.advance(details.audioUrl, trigger, trackKey)
+          : engine.load(details.audioUrl, trackKey)
       audioRef.current = audio
       attachAudio(audio, handleAutoAdvance)
 
       if (shouldAutoplay) {
-        await audio.play().catch(() => undefined)
+        await engine.play().catch(() => undefined)
       } else {
         setIsPlaying(false)
       }
     },
-    [attachAudio, handleAutoAdvance, teardownAudio, volume],
+    [attachAudio, detachAudio, getAudioEngine, handleAutoAdvance],
   )
 
   const skipAfterInvalidTrack = useCallback(
     (failedIndex: number) => {
+      if (queueRef.current.length) {
+        const startQueued = () => playQueuedTrack(0)
+        if (typeof window !== 'undefined') {
+          window.setTimeout(startQueued, 0)
+        } else {
+          startQueued()
+        }
+        return
+      }
+
       const list = playlistRef.current
       if (!list.length) {
         setIsPlaying(false)
@@ -1503,11 +2788,17 @@ function App() {
         startPlayback()
       }
     },
-    [setIsBuffering, setIsPlaying],
+    [playQueuedTrack, setIsBuffering, setIsPlaying],
   )
 
   const playTrack = useCallback(
-    async (entry: PlaylistEntry, index: number, shouldAutoplay = true) => {
+    async (
+      entry: PlaylistEntry,
+      index: number,
+      shouldAutoplay = true,
+      trigger?: TrackAdvanceTrigger,
+      fromQueue = false,
+    ) => {
       setIsLoadingTrack(true)
       setError(null)
       setProgress(0)
@@ -1517,6 +2808,8 @@ function App() {
       const trackIdentifier = getTrackKey(entry)
       setCurrentTrackId(trackIdentifier)
       activeIndexRef.current = index
+      isQueuePlaybackRef.current = fromQueue
+      upcomingTrackRef.current = null
 
       try {
         let details: TrackDetails
@@ -1527,21 +2820,23 @@ function App() {
             lyrics: entry.lyrics ?? [],
           }
         } else {
-          const hydrated = await buildTrackDetails(entry)
+          const pending = prefetchRef.current
+          const hydrated =
+            pending && pending.key === trackIdentifier ? await pending.promise : await buildTrackDetails(entry)
           details = {
             ...entry,
             ...hydrated,
           }
         }
 
-        if (playlistRef.current.length) {
+        if (!fromQueue && playlistRef.current.length) {
           playlistRef.current = playlistRef.current.map((track, trackIndex) =>
             trackIndex === index ? details : track,
           )
           setPlaylist(playlistRef.current)
         }
 
-        await activateTrack(details, shouldAutoplay)
+        await activateTrack(details, shouldAutoplay, trigger)
       } catch (err) {
         const error = err as Error
         if (error?.message === INVALID_AUDIO_SOURCE_ERROR) {
@@ -1567,6 +2862,8 @@ function App() {
   useEffect(() => {
     return () => {
       teardownAudio()
+      audioEngineRef.current?.destroy()
+      audioEngineRef.current = null
     }
   }, [teardownAudio])
 
@@ -1666,6 +2963,7 @@ function App() {
   }, [])
 
   const handlePlayPause = useCallback(() => {
+    const engine = getAudioEngine()
     let audio = audioRef.current
 
     if (!audio) {
@@ -1673,14 +2971,12 @@ function App() {
       if (!track || !track.audioUrl) {
         return
       }
-      audio = new Audio(track.audioUrl)
-      audio.crossOrigin = 'anonymous'
-      audio.volume = volume
+      audio = engine.load(track.audioUrl, getTrackKey(track))
       audioRef.current = audio
       cleanupRef.current?.()
       attachAudio(audio, handleAutoAdvance)
     } else if (!audio.src && currentTrackRef.current?.audioUrl) {
-      audio.src = currentTrackRef.current.audioUrl
+      audio = engine.load(currentTrackRef.current.audioUrl, getTrackKey(currentTrackRef.current))
     }
 
     if (!audio.src) {
@@ -1688,35 +2984,193 @@ function App() {
     }
 
     if (audio.paused) {
-      audio.play().catch(() => undefined)
+      engine.play().catch(() => undefined)
     } else {
       audio.pause()
     }
-  }, [attachAudio, handleAutoAdvance, volume])
+  }, [attachAudio, getAudioEngine, handleAutoAdvance])
 
-  const handleSeek = useCallback((value: number) => {
-    const audio = audioRef.current
-    if (!audio || !currentTrackRef.current) {
+  // The OS extrapolates the position from the rate, so it only needs refreshing on jumps.
+  const syncMediaPositionState = useCallback(() => {
+    if (typeof navigator === 'undefined' || typeof navigator.mediaSession?.setPositionState !== 'function') {
       return
     }
-    audio.currentTime = value
-    setProgress(value)
+    const audio = audioRef.current
+    try {
+      if (!audio || !currentTrackRef.current || !Number.isFinite(audio.duration) || audio.duration <= 0) {
+        navigator.mediaSession.setPositionState()
+        return
+      }
+      navigator.mediaSession.setPositionState({
+        duration: audio.duration,
+        playbackRate: audio.playbackRate || 1,
+        position: Math.min(Math.max(audio.currentTime, 0), audio.duration),
+      })
+    } catch (error) {
+      console.warn('Failed to update media session position', error)
+    }
   }, [])
 
-  const handleAudioQualityChange = useCallback(
-    (selectedQuality: AudioQuality) => {
-      setAudioQuality(selectedQuality)
+  const handleSeek = useCallback(
+    (value: number) => {
+      const audio = audioRef.current
+      if (!audio || !currentTrackRef.current) {
+        return
+      }
+      audio.currentTime = value
+      setProgress(value)
+      syncMediaPositionState()
     },
-    [setAudioQuality]
+    [syncMediaPositionState],
   )
 
-  const handleVolumeChange = useCallback((value: number) => {
-    setVolume(value)
-  }, [])
+  const currentLyricOffset = trackCacheKey ? lyricOffsets[trackCacheKey] ?? 0 : 0
 
-  const handlePlaylistSelect = useCallback(
-    async (index: number) => {
-      const track = playlistRef.current[index]
+  const handleLyricOffsetChange = useCallback((delta: number | null) => {
+    const track = currentTrackRef.current
+    if (!track) {
+      return
+    }
+    const key = getTrackKey(track)
+    setLyricOffsets((prev) => {
+      const nextOffset =
+        delta === null
+          ? 0
+          : Math.min(Math.max((prev[key] ?? 0) + delta, -LYRIC_OFFSET_LIMIT_MS), LYRIC_OFFSET_LIMIT_MS)
+      const next = { ...prev }
+      if (nextOffset === 0) {
+        delete next[key]
+      } else {
+        next[key] = nextOffset
+      }
+      lyricOffsetsRef.current = next
+      return next
+    })
+  }, [])
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (audio) {
+      handleTimeUpdate(audio)
+    }
+  }, [currentLyricOffset, handleTimeUpdate])
+
+  const handleLyricSeek = useCallback(
+    (time: number) => {
+      handleSeek(Math.max(0, time - currentLyricOffset / 1000))
+    },
+    [currentLyricOffset, handleSeek],
+  )
+
+  useEffect(() => {
+    if (sleepTimer?.kind !== 'duration' || typeof window === 'undefined') {
+      return
+    }
+    const timeout = window.setTimeout(
+      () => fireSleepTimer(SLEEP_FADE_SECONDS),
+      Math.max(0, sleepTimer.endsAt - Date.now()),
+    )
+    return () => window.clearTimeout(timeout)
+  }, [fireSleepTimer, sleepTimer])
+
+  const handleSleepTimerStart = useCallback((timer: SleepTimerSetting) => {
+    audioEngineRef.current?.cancelFade()
+    setSleepTimer(timer)
+    showNotification(
+      timer.kind === 'duration'
+        ? `将在 ${Math.round((timer.endsAt - Date.now()) / 60000)} 分钟后停止播放`
+        : timer.remaining <= 1
+          ? '将在当前歌曲结束后停止播放'
+          : `将在播放完 ${timer.remaining} 首歌曲后停止播放`,
+      'info',
+    )
+  }, [])
+
+  const handleSleepTimerCancel = useCallback(() => {
+    audioEngineRef.current?.cancelFade()
+    setSleepTimer(null)
+    showNotification('已取消睡眠定时', 'info')
+  }, [])
+
+  const handleABLoopToggle = useCallback(() => {
+    const audio = audioRef.current
+    if (!audio || !currentTrackRef.current) {
+      return
+    }
+    const loop = abLoopRef.current
+    if (!loop) {
+      setAbLoop({ start: audio.currentTime, end: null })
+      return
+    }
+    if (loop.end !== null) {
+      setAbLoop(null)
+      return
+    }
+    if (audio.currentTime - loop.start < AB_LOOP_MIN_SECONDS) {
+      showNotification('循环终点 B 需要在起点 A 之后', 'error')
+      return
+    }
+    setAbLoop({ start: loop.start, end: audio.currentTime })
+  }, [])
+
+  // Shift-clicking the progress slider marks A, then B; the two are ordered either way round.
+  const handleABLoopMark = useCallback((time: number) => {
+    if (!currentTrackRef.current) {
+      return
+    }
+    const loop = abLoopRef.current
+    if (!loop || loop.end !== null) {
+      setAbLoop({ start: time, end: null })
+      return
+    }
+    if (Math.abs(time - loop.start) < AB_LOOP_MIN_SECONDS) {
+      showNotification('循环终点 B 与起点 A 太近', 'error')
+      return
+    }
+    setAbLoop({ start: Math.min(loop.start, time), end: Math.max(loop.start, time) })
+  }, [])
+
+  // Loops one lyric line, from its own timestamp to the next line's.
+  const handleLyricLoop = useCallback(
+    (index: number) => {
+      const track = currentTrackRef.current
+      const line = track?.lyrics[index]
+      if (!track || !line) {
+        return
+      }
+      if (abLoopRef.current?.lyricIndex === index) {
+        setAbLoop(null)
+        return
+      }
+      const shift = currentLyricOffset / 1000
+      const nextLine = track.lyrics[index + 1]
+      const lastWord = line.words?.[line.words.length - 1]
+      const lineEnd = nextLine?.time ?? lastWord?.endTime ?? duration + shift
+      const start = Math.max(0, line.time - shift)
+      const end = lineEnd - shift
+      if (end - start < AB_LOOP_MIN_SECONDS) {
+        return
+      }
+      setAbLoop({ start, end, lyricIndex: index })
+      handleSeek(start)
+    },
+    [currentLyricOffset, duration, handleSeek],
+  )
+
+  const handleAudioQualityChange = useCallback(
+    (selectedQuality: AudioQuality) => {
+      setAudioQuality(selectedQuality)
+    },
+    [setAudioQuality]
+  )
+
+  const handleVolumeChange = useCallback((value: number) => {
+    setVolume(value)
+  }, [])
+
+  const handlePlaylistSelect = useCallback(
+    async (index: number) => {
+      const track = playlistRef.current[index]
       if (!track) {
         return
       }
@@ -1731,6 +3185,154 @@ function App() {
     [playTrack],
   )
 
+  const updateLibrary = useCallback((nextLibrary: SavedPlaylist[]) => {
+    libraryRef.current = nextLibrary
+    setLibrary(nextLibrary)
+  }, [])
+
+  // Parks the active playlist together with the track and position it was left at, then
+  // restores the target's own.
+  const switchPlaylist = useCallback(
+    async (targetId: string) => {
+      const sourceId = activePlaylistIdRef.current
+      const target = libraryRef.current.find((item) => item.id === targetId)
+      if (!target || targetId === sourceId) {
+        return
+      }
+      // A later switch supersedes this one while the remembered track is still loading.
+      const switchToken = ++playlistSwitchTokenRef.current
+      const isSuperseded = () =>
+        switchToken !== playlistSwitchTokenRef.current || activePlaylistIdRef.current !== targetId
+
+      const audio = audioRef.current
+      const wasPlaying = Boolean(audio && !audio.paused)
+      const anchor = playlistRef.current[activeIndexRef.current]
+      const leftAt = anchor && !isQueuePlaybackRef.current ? (audio?.currentTime ?? 0) : 0
+      updateLibrary(
+        libraryRef.current.map((item) => {
+          if (item.id === sourceId) {
+            return {
+              ...item,
+              tracks: playlistRef.current,
+              currentTrackId: anchor ? getTrackKey(anchor) : null,
+              progress: leftAt,
+            }
+          }
+          return item.id === targetId ? { ...item, tracks: [] } : item
+        }),
+      )
+      activePlaylistIdRef.current = targetId
+      setActivePlaylistId(targetId)
+
+      teardownAudio()
+      isQueuePlaybackRef.current = false
+      setCurrentTrack(null)
+      currentTrackRef.current = null
+      setCurrentTrackId(null)
+      activeIndexRef.current = -1
+      setProgress(0)
+      setDuration(0)
+      setActiveLyricIndex(0)
+      setIsPlaying(false)
+      setIsBuffering(false)
+
+      const tracks = target.tracks
+      playlistRef.current = tracks
+      setPlaylist(tracks)
+
+      // Without a remembered track the first one is loaded by the auto-load effect.
+      const resumeIndex = tracks.findIndex((track) => getTrackKey(track) === target.currentTrackId)
+      if (resumeIndex === -1) {
+        return
+      }
+      // Hydrating here keeps the network wait out of playTrack, which would otherwise activate
+      // the track even after the user has moved on. A failed lookup is left to playTrack to
+      // retry and report.
+      const entry = tracks[resumeIndex]
+      let resumeEntry = entry
+      if (!entry.audioUrl) {
+        try {
+          resumeEntry = { ...entry, ...(await buildTrackDetails(entry)) }
+        } catch {
+          resumeEntry = entry
+        }
+        if (isSuperseded()) {
+          return
+        }
+      }
+      await playTrack(resumeEntry, resumeIndex, false)
+      if (isSuperseded()) {
+        return
+      }
+      handleSeek(target.progress)
+      if (wasPlaying && currentTrackRef.current) {
+        getAudioEngine().play().catch(() => undefined)
+      }
+    },
+    [buildTrackDetails, getAudioEngine, handleSeek, playTrack, teardownAudio, updateLibrary],
+  )
+
+  const handleSwitchPlaylist = useCallback(
+    (playlistId: string) => {
+      switchPlaylist(playlistId).catch(() => undefined)
+    },
+    [switchPlaylist],
+  )
+
+  const handleCreatePlaylist = useCallback(() => {
+    const name = promptPlaylistName('新建播放列表')
+    if (!name) {
+      return
+    }
+    const created = createSavedPlaylist(`playlist-${Date.now().toString(36)}`, name)
+    updateLibrary([...libraryRef.current, created])
+    switchPlaylist(created.id).catch(() => undefined)
+    showNotification(`已创建播放列表「${name}」`, 'success')
+  }, [switchPlaylist, updateLibrary])
+
+  const handleRenamePlaylist = useCallback(() => {
+    const active = libraryRef.current.find((item) => item.id === activePlaylistIdRef.current)
+    if (!active) {
+      return
+    }
+    const name = promptPlaylistName(active.name)
+    if (!name || name === active.name) {
+      return
+    }
+    updateLibrary(libraryRef.current.map((item) => (item.id === active.id ? { ...item, name } : item)))
+    showNotification(`播放列表已重命名为「${name}」`, 'success')
+  }, [updateLibrary])
+
+  const handleDuplicatePlaylist = useCallback(() => {
+    const list = libraryRef.current
+    const activeIndex = list.findIndex((item) => item.id === activePlaylistIdRef.current)
+    const active = list[activeIndex]
+    if (!active) {
+      return
+    }
+    const copy = createSavedPlaylist(`playlist-${Date.now().toString(36)}`, `${active.name} 副本`, playlistRef.current)
+    updateLibrary([...list.slice(0, activeIndex + 1), copy, ...list.slice(activeIndex + 1)])
+    showNotification(`已复制为「${copy.name}」`, 'success')
+  }, [updateLibrary])
+
+  const handleDeletePlaylist = useCallback(() => {
+    const list = libraryRef.current
+    const activeIndex = list.findIndex((item) => item.id === activePlaylistIdRef.current)
+    const active = list[activeIndex]
+    const fallback = list[activeIndex + 1] ?? list[activeIndex - 1]
+    if (!active || !fallback) {
+      return
+    }
+    if (!window.confirm(`确定要删除播放列表「${active.name}」吗？`)) {
+      return
+    }
+    // The switch parks the deleted playlist in the library synchronously, so it can be
+    // dropped right after.
+    switchPlaylist(fallback.id).catch(() => undefined)
+    updateLibrary(libraryRef.current.filter((item) => item.id !== active.id))
+    showNotification(`已删除播放列表「${active.name}」`, 'info')
+  }, [switchPlaylist, updateLibrary])
+
   const handleClearPlaylist = useCallback(() => {
     if (!playlistRef.current.length) {
       return
@@ -1770,28 +3372,7 @@ function App() {
     }
 
     try {
-      const payload = {
-        version: 1,
-        exportedAt: new Date().toISOString(),
-        tracks: list,
-      }
-
-      const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const anchor = document.createElement('a')
-      const now = new Date()
-      const timestamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(
-        now.getDate(),
-      ).padStart(2, '0')}${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`
-
-      anchor.href = url
-      anchor.download = `solara-playlist-${timestamp}.json`
-      anchor.style.display = 'none'
-      document.body.appendChild(anchor)
-      anchor.click()
-      document.body.removeChild(anchor)
-      window.setTimeout(() => URL.revokeObjectURL(url), 0)
-
+      downloadPlaylistFile(list, lyricOffsetsRef.current)
       showNotification('播放列表导出成功', 'success')
     } catch (error) {
       console.error('Failed to export playlist', error)
@@ -1834,6 +3415,7 @@ function App() {
 
         const seen = new Set<string>()
         const normalizedTracks: PlaylistEntry[] = []
+        const importedOffsets: Record<string, number> = {}
 
         for (const item of rawTracks) {
           if (!item || typeof item !== 'object') {
@@ -1888,30 +3470,9 @@ function App() {
             normalized.picId = picId
           }
 
-          const rawLyrics = record.lyrics
-          if (Array.isArray(rawLyrics)) {
-            const lyrics = rawLyrics
-              .map((line) => {
-                if (!line || typeof line !== 'object') {
-                  return null
-                }
-                const lyricRecord = line as Record<string, unknown>
-                const time = Number(lyricRecord.time)
-                const text = String(lyricRecord.text ?? '').trim()
-                if (!Number.isFinite(time) || !text) {
-                  return null
-                }
-                const normalizedLyric: LyricLine = { time, text }
-                if (typeof lyricRecord.translation === 'string' && lyricRecord.translation.trim()) {
-                  normalizedLyric.translation = lyricRecord.translation.trim()
-                }
-                return normalizedLyric
-              })
-              .filter((line): line is LyricLine => line !== null)
-
-            if (lyrics.length) {
-              normalized.lyrics = lyrics
-            }
+          const lyrics = normalizeImportedLyrics(record.lyrics)
+          if (lyrics.length) {
+            normalized.lyrics = lyrics
           }
 
           const key = getTrackKey(normalized)
@@ -1920,6 +3481,14 @@ function App() {
           }
           seen.add(key)
           normalizedTracks.push(normalized)
+
+          const rawOffset = Number(record.lyricOffset)
+          if (Number.isFinite(rawOffset) && rawOffset !== 0) {
+            importedOffsets[key] = Math.min(
+              Math.max(Math.round(rawOffset), -LYRIC_OFFSET_LIMIT_MS),
+              LYRIC_OFFSET_LIMIT_MS,
+            )
+          }
         }
 
         if (!normalizedTracks.length) {
@@ -1946,6 +3515,9 @@ function App() {
         setActiveLyricIndex(0)
         setIsPlaying(false)
         setIsBuffering(false)
+        if (Object.keys(importedOffsets).length) {
+          setLyricOffsets((prev) => ({ ...prev, ...importedOffsets }))
+        }
 
         if (typeof window !== 'undefined') {
           window.localStorage.removeItem(STORAGE_KEYS.currentTrack)
@@ -1972,21 +3544,38 @@ function App() {
     ],
   )
 
+  /** Returns the .lrc sidecar content for a download, or null when the track has no lyrics. */
+  const buildLyricSidecar = useCallback(async (track: PlaylistEntry) => {
+    const trackKey = getTrackKey(track)
+    const playing = currentTrackRef.current
+    let lyrics =
+      playing && getTrackKey(playing) === trackKey && playing.lyrics.length ? playing.lyrics : track.lyrics ?? []
+    if (!lyrics.length) {
+      const source = track.source || DEFAULT_SOURCE
+      const lyricInfo = await fetchJson<{ lyric?: string | null; tlyric?: string | null; romalrc?: string | null }>(
+        `${API_BASE}?types=lyric&source=${source}&id=${track.lyricId || track.id}`,
+      )
+      lyrics = mergeLyrics(lyricInfo.lyric, lyricInfo.tlyric, lyricInfo.romalrc)
+    }
+    if (!lyrics.length) {
+      return null
+    }
+    const offset = lyricOffsetsRef.current[trackKey] ?? 0
+    return serializeLyrics(lyrics, 'lrc', {
+      metadata: { title: track.title, artist: track.artists, album: track.album },
+      shift: -offset / 1000,
+    })
+  }, [])
+
   const handleDownloadTrack = useCallback(
     async (track: PlaylistEntry, quality: AudioQuality) => {
       setDownloadQuality(quality)
       try {
-        const bitrate = QUALITY_TO_BR[quality]
-        const source = track.source || DEFAULT_SOURCE
-        const urlInfo = await fetchJson<{ url?: string | null }>(
-          `${API_BASE}?types=url&id=${track.id}&source=${source}&br=${bitrate}`,
-        )
-        const rawUrl = urlInfo?.url ?? ''
-        if (!isSupportedAudioSource(rawUrl)) {
+        const downloadUrl = await fetchDownloadUrl(track, quality)
+        if (!downloadUrl) {
           showNotification('未找到有效下载链接', 'error')
           return
         }
-        const downloadUrl = proxifyAudioUrl(rawUrl)
         showNotification(`开始下载：${track.title}`, 'info')
         if (typeof window !== 'undefined') {
           window.open(downloadUrl, '_blank', 'noopener,noreferrer')
@@ -1994,26 +3583,68 @@ function App() {
       } catch (error) {
         console.error('Failed to initiate download', error)
         showNotification('未找到有效下载链接', 'error')
+        return
+      }
+
+      if (!includeLyricSidecar || typeof window === 'undefined') {
+        return
+      }
+
+      try {
+        const content = await buildLyricSidecar(track)
+        if (content) {
+          downloadTextFile(content, `${getTrackFileName(track)}.lrc`, LYRIC_EXPORT_FILES.lrc.type)
+        }
+      } catch (error) {
+        console.error('Failed to save lyric sidecar', error)
+        showNotification('歌词文件下载失败', 'error')
       }
     },
-    [setDownloadQuality],
+    [buildLyricSidecar, includeLyricSidecar, setDownloadQuality],
   )
 
-  const handleRemoveTrack = useCallback(
-    (trackKey: string) => {
-      const target = playlistRef.current.find((item) => getTrackKey(item) === trackKey)
-      if (!target) {
+  const handleExportLyrics = useCallback(
+    (format: LyricExportFormat) => {
+      const track = currentTrackRef.current
+      if (typeof window === 'undefined' || !track) {
         return
       }
-      if (!window.confirm(`确定要将「${target.title}」从播放列表中移除吗？`)) {
+      if (!track.lyrics.length) {
+        showNotification('当前歌曲暂无歌词可导出', 'error')
         return
       }
 
-      const nextList = playlistRef.current.filter((item) => getTrackKey(item) !== trackKey)
+      try {
+        const offset = lyricOffsetsRef.current[getTrackKey(track)] ?? 0
+        const content = serializeLyrics(track.lyrics, format, {
+          metadata: { title: track.title, artist: track.artists, album: track.album },
+          shift: -offset / 1000,
+          duration: track.duration,
+        })
+        const file = LYRIC_EXPORT_FILES[format]
+        downloadTextFile(content, `${getTrackFileName(track)}${file.suffix}`, file.type)
+        showNotification('歌词导出成功', 'success')
+      } catch (error) {
+        console.error('Failed to export lyrics', error)
+        showNotification('导出歌词时出错', 'error')
+      }
+    },
+    [],
+  )
+
+  const handleToggleLyricSidecar = useCallback(() => {
+    const next = !includeLyricSidecar
+    setIncludeLyricSidecar(next)
+    showNotification(next ? '下载歌曲时将附带 .lrc 歌词' : '下载歌曲时不再附带歌词', 'info')
+  }, [includeLyricSidecar])
+
+  const removeFromPlaylist = useCallback(
+    (trackKeys: ReadonlySet<string>) => {
+      const nextList = playlistRef.current.filter((item) => !trackKeys.has(getTrackKey(item)))
       playlistRef.current = nextList
       setPlaylist(nextList)
 
-      if (currentTrackRef.current && getTrackKey(currentTrackRef.current) === trackKey) {
+      if (currentTrackRef.current && trackKeys.has(getTrackKey(currentTrackRef.current))) {
         teardownAudio()
         setCurrentTrack(null)
         currentTrackRef.current = null
@@ -2028,69 +3659,327 @@ function App() {
         window.localStorage.removeItem(STORAGE_KEYS.currentTrackId)
         window.localStorage.removeItem(STORAGE_KEYS.playProgress)
       }
+    },
+    [teardownAudio],
+  )
 
+  const handleRemoveTrack = useCallback(
+    (trackKey: string) => {
+      const target = playlistRef.current.find((item) => getTrackKey(item) === trackKey)
+      if (!target) {
+        return
+      }
+      if (!window.confirm(`确定要将「${target.title}」从播放列表中移除吗？`)) {
+        return
+      }
+
+      removeFromPlaylist(new Set([trackKey]))
       showNotification('已从播放列表移除', 'info')
     },
-    [teardownAudio],
+    [removeFromPlaylist],
   )
 
+  // The shuffle history stores track keys, so only the index-based state needs updating.
+  const handleReorderPlaylist = useCallback((fromIndex: number, toIndex: number) => {
+    const list = playlistRef.current
+    const moved = list[fromIndex]
+    if (!moved || fromIndex === toIndex || toIndex < 0 || toIndex >= list.length) {
+      return
+    }
+    const activeTrack = list[activeIndexRef.current]
+    const nextList = [...list]
+    nextList.splice(fromIndex, 1)
+    nextList.splice(toIndex, 0, moved)
+    playlistRef.current = nextList
+    setPlaylist(nextList)
+    activeIndexRef.current = activeTrack ? nextList.indexOf(activeTrack) : -1
+    // The next track was picked from the old order; re-pick it from the new one.
+    upcomingTrackRef.current = null
+    audioEngineRef.current?.rearm()
+  }, [])
+
   const handleLoadMoreResults = useCallback(() => {
     setSearchLimit((prev) => prev + SEARCH_PAGE_SIZE)
   }, [])
 
-  const handleSearchSelect = useCallback(
-    async (track: SearchResult) => {
-      setIsLoadingTrack(true)
-      setIsBuffering(true)
-      setError(null)
+  const updateQueue = useCallback((nextQueue: PlaylistEntry[]) => {
+    queueRef.current = nextQueue
+    setQueue(nextQueue)
+    // A playlist track may already be picked and buffered; re-pick so the queue goes first.
+    upcomingTrackRef.current = null
+    audioEngineRef.current?.rearm()
+  }, [])
 
-      try {
-        const details = await buildTrackDetails(track)
-        let targetIndex = -1
-        setPlaylist((prev) => {
-          const targetKey = getTrackKey(details)
-          const existingIndex = prev.findIndex((item) => getTrackKey(item) === targetKey)
-          const defaultInsertIndex = activeIndexRef.current >= 0 ? activeIndexRef.current + 1 : prev.length
-          let insertIndex = Math.min(defaultInsertIndex, prev.length)
-
-          if (existingIndex !== -1) {
-            const nextList = [...prev]
-            nextList[existingIndex] = details
-            const [updatedTrack] = nextList.splice(existingIndex, 1)
-            if (existingIndex < insertIndex) {
-              insertIndex = Math.max(insertIndex - 1, 0)
-            }
-            insertIndex = Math.min(insertIndex, nextList.length)
-            nextList.splice(insertIndex, 0, updatedTrack)
-            targetIndex = insertIndex
-            return nextList
-          }
+  const handlePlayNext = useCallback(
+    (track: PlaylistEntry) => {
+      const trackKey = getTrackKey(track)
+      updateQueue([track, ...queueRef.current.filter((item) => getTrackKey(item) !== trackKey)])
+      showNotification(`「${track.title}」将在下一首播放`, 'success')
+    },
+    [updateQueue],
+  )
 
-          const nextList = [...prev]
-          nextList.splice(insertIndex, 0, details)
-          targetIndex = insertIndex
-          return nextList
-        })
+  const handleAddToQueue = useCallback(
+    (track: PlaylistEntry) => {
+      const trackKey = getTrackKey(track)
+      if (queueRef.current.some((item) => getTrackKey(item) === trackKey)) {
+        showNotification('这首歌已在待播清单中', 'info')
+        return
+      }
+      updateQueue([...queueRef.current, track])
+      showNotification('已添加到待播清单', 'success')
+    },
+    [updateQueue],
+  )
 
-        if (targetIndex === -1) {
-          targetIndex = 0
+  const handleRemoveFromQueue = useCallback(
+    (trackKey: string) => {
+      updateQueue(queueRef.current.filter((item) => getTrackKey(item) !== trackKey))
+    },
+    [updateQueue],
+  )
+
+  const handleClearQueue = useCallback(() => {
+    if (!queueRef.current.length) {
+      return
+    }
+    updateQueue([])
+    showNotification('待播清单已清空', 'info')
+  }, [updateQueue])
+
+  // Bulk actions receive the selected keys and act on them in playlist order, whatever
+  // order they were picked in.
+  const getSelectedTracks = useCallback((trackKeys: string[]) => {
+    const selected = new Set(trackKeys)
+    return playlistRef.current.filter((item) => selected.has(getTrackKey(item)))
+  }, [])
+
+  const handleBulkPlayNext = useCallback(
+    (trackKeys: string[]) => {
+      const tracks = getSelectedTracks(trackKeys)
+      if (!tracks.length) {
+        return
+      }
+      const selected = new Set(trackKeys)
+      updateQueue([...tracks, ...queueRef.current.filter((item) => !selected.has(getTrackKey(item)))])
+      showNotification(`${tracks.length} 首歌曲将在接下来播放`, 'success')
+    },
+    [getSelectedTracks, updateQueue],
+  )
+
+  // Every link is resolved before any download starts, and the batch is cut to what the API
+  // budget still allows: each track costs one link lookup plus one lyric lookup for the sidecar.
+  // Only kuwo links come back through /proxy; the others are cross-origin and cannot be saved
+  // from this page, so they are listed in a tab that has to be opened before the first await,
+  // while the click still authorises it.
+  const handleBulkDownload = useCallback(
+    async (trackKeys: string[]) => {
+      const tracks = getSelectedTracks(trackKeys)
+      if (!tracks.length || typeof window === 'undefined') {
+        return
+      }
+      const requestCost = includeLyricSidecar ? 2 : 1
+      const batch = tracks.slice(0, Math.floor(apiRateLimiter.remaining() / requestCost))
+      if (!batch.length) {
+        showNotification('请求过于频繁，请稍后再下载', 'error')
+        return
+      }
+
+      const linkTab = batch.some((track) => (track.source || DEFAULT_SOURCE) !== 'kuwo')
+        ? window.open('', '_blank')
+        : null
+      if (linkTab) {
+        linkTab.document.title = 'Solara 下载链接'
+        linkTab.document.body.textContent = '正在获取下载链接…'
+      }
+
+      const resolved = await Promise.all(
+        batch.map(async (track) => {
+          const url = await fetchDownloadUrl(track, downloadQuality).catch((error: unknown) => {
+            console.error('Failed to resolve download link', error)
+            return ''
+          })
+          const sidecar =
+            url && includeLyricSidecar
+              ? await buildLyricSidecar(track).catch((error: unknown) => {
+                  console.error('Failed to save lyric sidecar', error)
+                  return null
+                })
+              : null
+          return { track, url, sidecar }
+        }),
+      )
+
+      const found = resolved.filter((item) => item.url)
+      const direct = found.filter((item) => isSameOriginUrl(item.url))
+      const external = linkTab ? found.filter((item) => !isSameOriginUrl(item.url)) : []
+      const blocked = found.length - direct.length - external.length
+      const withFileName = (item: (typeof found)[number]) => ({ ...item, fileName: getTrackFileName(item.track) })
+
+      if (linkTab) {
+        if (external.length) {
+          writeDownloadLinks(
+            linkTab,
+            external.map(withFileName).map(({ url, fileName }) => ({
+              url,
+              fileName: `${fileName}.${getAudioFileExtension(url)}`,
+            })),
+          )
+          linkTab.opener = null
+        } else {
+          linkTab.close()
         }
+      }
 
-        await playTrack(details, targetIndex)
-      } catch (err) {
-        console.error(err)
-        setError('载入歌曲时出现问题，请稍后再试。')
-        setIsLoadingTrack(false)
-        setIsBuffering(false)
-      } finally {
-        setQuery('')
-        setSearchResults([])
-        setIsSearching(false)
-        setSearchLimit(SEARCH_PAGE_SIZE)
-        setHasMoreResults(false)
+      // Browsers drop downloads started in the same tick, so each one gets its own slot.
+      const queued = [...direct, ...external].map(withFileName)
+      queued.forEach(({ url, sidecar, fileName }, position) => {
+        window.setTimeout(() => {
+          if (isSameOriginUrl(url)) {
+            startFileDownload(url, `${fileName}.${getAudioFileExtension(url)}`)
+          }
+          if (sidecar) {
+            downloadTextFile(sidecar, `${fileName}.lrc`, LYRIC_EXPORT_FILES.lrc.type)
+          }
+        }, position * BULK_DOWNLOAD_INTERVAL_MS)
+      })
+
+      const notes: string[] = []
+      if (direct.length) {
+        notes.push(`已开始下载 ${direct.length} 首歌曲`)
+      }
+      if (external.length) {
+        notes.push(`${external.length} 首外部音源的下载链接已在新标签页中列出`)
+      }
+      if (blocked) {
+        notes.push(`${blocked} 首外部音源因弹出窗口被拦截未能下载`)
+      }
+      if (found.length < batch.length) {
+        notes.push(`${batch.length - found.length} 首未找到有效下载链接`)
+      }
+      if (batch.length < tracks.length) {
+        notes.push(`${tracks.length - batch.length} 首因请求额度不足未下载`)
+      }
+      const handled = direct.length + external.length
+      const type = !handled ? 'error' : handled < tracks.length ? 'info' : 'success'
+      showNotification(notes.join('，'), type)
+    },
+    [buildLyricSidecar, downloadQuality, getSelectedTracks, includeLyricSidecar],
+  )
+
+  const handleBulkMove = useCallback(
+    (trackKeys: string[], playlistId: string) => {
+      const target = libraryRef.current.find((item) => item.id === playlistId)
+      const tracks = getSelectedTracks(trackKeys)
+      if (!target || playlistId === activePlaylistIdRef.current || !tracks.length) {
+        return
+      }
+      const existing = new Set(target.tracks.map(getTrackKey))
+      const added = tracks.filter((track) => !existing.has(getTrackKey(track)))
+      updateLibrary(
+        libraryRef.current.map((item) =>
+          item.id === playlistId ? { ...item, tracks: [...item.tracks, ...added] } : item,
+        ),
+      )
+      removeFromPlaylist(new Set(trackKeys))
+      showNotification(`已将 ${tracks.length} 首歌曲移动到「${target.name}」`, 'success')
+    },
+    [getSelectedTracks, removeFromPlaylist, updateLibrary],
+  )
+
+  const handleBulkExport = useCallback(
+    (trackKeys: string[]) => {
+      const tracks = getSelectedTracks(trackKeys)
+      if (!tracks.length || typeof window === 'undefined') {
+        return
+      }
+      try {
+        downloadPlaylistFile(tracks, lyricOffsetsRef.current)
+        showNotification(`已导出 ${tracks.length} 首歌曲`, 'success')
+      } catch (error) {
+        console.error('Failed to export selected tracks', error)
+        showNotification('导出播放列表时出错', 'error')
+      }
+    },
+    [getSelectedTracks],
+  )
+
+  const handleBulkRemove = useCallback(
+    (trackKeys: string[]) => {
+      const tracks = getSelectedTracks(trackKeys)
+      if (!tracks.length || !window.confirm(`确定要从播放列表移除选中的 ${tracks.length} 首歌曲吗？`)) {
+        return
+      }
+      removeFromPlaylist(new Set(trackKeys))
+      showNotification(`已从播放列表移除 ${tracks.length} 首歌曲`, 'info')
+    },
+    [getSelectedTracks, removeFromPlaylist],
+  )
+
+  const handleQueueSelect = useCallback(
+    (index: number) => {
+      playQueuedTrack(index)
+    },
+    [playQueuedTrack],
+  )
+
+  const handleAddToPlaylist = useCallback(
+    (track: SearchResult, playlistId: string) => {
+      setPlaylistPickerKey(null)
+      const target = libraryRef.current.find((item) => item.id === playlistId)
+      if (!target) {
+        return
       }
+      const entry = searchResultToEntry(track)
+      const trackKey = getTrackKey(entry)
+      const isActive = playlistId === activePlaylistIdRef.current
+      const tracks = isActive ? playlistRef.current : target.tracks
+      if (tracks.some((item) => getTrackKey(item) === trackKey)) {
+        showNotification(`这首歌已在「${target.name}」中`, 'info')
+        return
+      }
+      if (isActive) {
+        playlistRef.current = [...tracks, entry]
+        setPlaylist(playlistRef.current)
+      } else {
+        updateLibrary(
+          libraryRef.current.map((item) => (item.id === playlistId ? { ...item, tracks: [...tracks, entry] } : item)),
+        )
+      }
+      showNotification(`已添加到「${target.name}」`, 'success')
     },
-    [buildTrackDetails, playTrack],
+    [updateLibrary],
+  )
+
+  const handleAddToNewPlaylist = useCallback(
+    (track: SearchResult) => {
+      setPlaylistPickerKey(null)
+      const name = promptPlaylistName('新建播放列表')
+      if (!name) {
+        return
+      }
+      const created = createSavedPlaylist(`playlist-${Date.now().toString(36)}`, name, [searchResultToEntry(track)])
+      updateLibrary([...libraryRef.current, created])
+      showNotification(`已添加到新播放列表「${name}」`, 'success')
+    },
+    [updateLibrary],
+  )
+
+  // Listening to a search result must not change the saved playlist, so it is played
+  // like a queued track and the playlist carries on from where it was afterwards.
+  const handleSearchSelect = useCallback(
+    (track: SearchResult) => {
+      const entry = searchResultToEntry(track)
+      const trackKey = getTrackKey(entry)
+      queueRef.current = [entry, ...queueRef.current.filter((item) => getTrackKey(item) !== trackKey)]
+      playQueuedTrack(0)
+      setQuery('')
+      setSearchResults([])
+      setIsSearching(false)
+      setSearchLimit(SEARCH_PAGE_SIZE)
+      setHasMoreResults(false)
+    },
+    [playQueuedTrack],
   )
 
   const handleExploreClick = useCallback(async () => {
@@ -2112,12 +4001,9 @@ function App() {
     }, 400)
 
     try {
-      const response = await fetch('/proxy?types=playlist&id=3778678&limit=50&offset=0')
-      if (!response.ok) {
-        throw new Error(`Request failed with status ${response.status}`)
-      }
-
-      const data = await response.json()
+      const data = await fetchJson<{ tracks?: unknown; playlist?: { tracks?: unknown } }>(
+        `${API_BASE}?types=playlist&id=3778678&limit=50&offset=0`,
+      )
       const rawTracks: Array<Record<string, unknown>> = Array.isArray(data?.tracks)
         ? data.tracks
         : Array.isArray(data?.playlist?.tracks)
@@ -2186,17 +4072,36 @@ function App() {
         }
       })
 
-      playlistRef.current = baseTracks
-      setPlaylist(baseTracks)
-
-      showNotification('已更新热门前 50 首歌曲', 'success')
+      // Like before playlists existed, refreshing never interrupts the current song: the
+      // explore playlist is refilled in place when open, and in the library otherwise.
+      const exploreName =
+        libraryRef.current.find((item) => item.id === EXPLORE_PLAYLIST_ID)?.name ?? EXPLORE_PLAYLIST_NAME
+      if (activePlaylistIdRef.current === EXPLORE_PLAYLIST_ID) {
+        playlistRef.current = baseTracks
+        setPlaylist(baseTracks)
+        showNotification(`热门前 50 首歌曲已更新到「${exploreName}」`, 'success')
+      } else {
+        const existing = libraryRef.current.find((item) => item.id === EXPLORE_PLAYLIST_ID)
+        const refreshed: SavedPlaylist = {
+          ...(existing ?? createSavedPlaylist(EXPLORE_PLAYLIST_ID, exploreName)),
+          tracks: baseTracks,
+          currentTrackId: null,
+          progress: 0,
+        }
+        updateLibrary(
+          existing
+            ? libraryRef.current.map((item) => (item === existing ? refreshed : item))
+            : [...libraryRef.current, refreshed],
+        )
+        showNotification(`热门前 50 首歌曲已更新到「${exploreName}」，可在播放列表标题处切换查看`, 'success')
+      }
     } catch (err) {
       showNotification('获取热门歌曲失败，请稍后再试', 'error')
       console.error(err)
     } finally {
       setIsExploring(false)
     }
-  }, [isExploring])
+  }, [isExploring, updateLibrary])
 
   const handlePrevious = useCallback(() => {
     const list = playlistRef.current
@@ -2206,6 +4111,12 @@ function App() {
     if (!currentTrackRef.current) {
       return
     }
+    // Going back from a queued track returns to the playlist track it interrupted.
+    const anchorTrack = isQueuePlaybackRef.current ? list[activeIndexRef.current] : undefined
+    if (anchorTrack) {
+      playTrack(anchorTrack, activeIndexRef.current, true, 'manual').catch(() => undefined)
+      return
+    }
     if (shuffleEnabledRef.current) {
       const history = shuffleHistoryRef.current
       while (history.length) {
@@ -2217,7 +4128,7 @@ function App() {
         if (previousIndex !== -1) {
           const target = list[previousIndex]
           if (target) {
-            playTrack(target, previousIndex).catch(() => undefined)
+            playTrack(target, previousIndex, true, 'manual').catch(() => undefined)
             return
           }
         }
@@ -2226,16 +4137,32 @@ function App() {
     const nextIndex = activeIndexRef.current > 0 ? activeIndexRef.current - 1 : list.length - 1
     const target = list[nextIndex]
     if (target) {
-      playTrack(target, nextIndex).catch(() => undefined)
+      playTrack(target, nextIndex, true, 'manual').catch(() => undefined)
     }
   }, [playTrack])
 
   const handleNext = useCallback(() => {
     const list = playlistRef.current
-    if (!list.length) {
+    if (!currentTrackRef.current) {
       return
     }
-    if (!currentTrackRef.current) {
+    // Skipping early still lands on the track that was already picked and buffered.
+    const upcoming = upcomingTrackRef.current
+    const upcomingEntry = upcoming ? getUpcomingEntry(upcoming) : undefined
+    if (
+      upcoming &&
+      repeatModeRef.current !== 'one' &&
+      upcomingEntry &&
+      getTrackKey(upcomingEntry) === upcoming.key
+    ) {
+      commitAutoAdvance(upcoming, 'manual')
+      return
+    }
+    if (queueRef.current.length) {
+      playQueuedTrack(0, 'manual')
+      return
+    }
+    if (!list.length) {
       return
     }
     const currentIndex = activeIndexRef.current
@@ -2248,7 +4175,7 @@ function App() {
       }
       if (list.length === 1) {
         const target = list[0]
-        playTrack(target, 0).catch(() => undefined)
+        playTrack(target, 0, true, 'manual').catch(() => undefined)
         return
       }
       const availableIndexes = list.map((_, index) => index).filter((index) => index !== currentIndex)
@@ -2259,7 +4186,7 @@ function App() {
           : 0
       const target = list[nextIndex]
       if (target) {
-        playTrack(target, nextIndex).catch(() => undefined)
+        playTrack(target, nextIndex, true, 'manual').catch(() => undefined)
       }
       return
     }
@@ -2267,15 +4194,73 @@ function App() {
     if (nextIndex < list.length) {
       const target = list[nextIndex]
       if (target) {
-        playTrack(target, nextIndex).catch(() => undefined)
+        playTrack(target, nextIndex, true, 'manual').catch(() => undefined)
       }
       return
     }
     if (list.length > 1) {
       const target = list[0]
-      playTrack(target, 0).catch(() => undefined)
+      playTrack(target, 0, true, 'manual').catch(() => undefined)
     }
-  }, [playTrack])
+  }, [commitAutoAdvance, getUpcomingEntry, playQueuedTrack, playTrack])
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession) {
+      return
+    }
+    if (!currentTrack) {
+      navigator.mediaSession.metadata = null
+      return
+    }
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentTrack.title,
+      artist: currentTrack.artists,
+      album: currentTrack.album,
+      artwork: currentTrack.artworkUrl ? [{ src: currentTrack.artworkUrl }] : [],
+    })
+  }, [currentTrack])
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession) {
+      return
+    }
+    navigator.mediaSession.playbackState = currentTrack ? (isPlaying ? 'playing' : 'paused') : 'none'
+    syncMediaPositionState()
+  }, [currentTrack, duration, isPlaying, playbackRate, syncMediaPositionState])
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession) {
+      return
+    }
+    const session = navigator.mediaSession
+    const seekBy = (delta: number) => {
+      const audio = audioRef.current
+      if (!audio) {
+        return
+      }
+      const end = Number.isFinite(audio.duration) ? audio.duration : audio.currentTime + delta
+      handleSeek(Math.min(Math.max(audio.currentTime + delta, 0), end))
+    }
+    const actions: Array<[MediaSessionAction, MediaSessionActionHandler]> = [
+      ['play', () => (audioRef.current?.paused === false ? undefined : handlePlayPause())],
+      ['pause', () => (audioRef.current?.paused === false ? handlePlayPause() : undefined)],
+      ['previoustrack', handlePrevious],
+      ['nexttrack', handleNext],
+      ['seekto', (details) => (typeof details.seekTime === 'number' ? handleSeek(details.seekTime) : undefined)],
+      ['seekbackward', (details) => seekBy(-(details.seekOffset ?? MEDIA_SESSION_SEEK_SECONDS))],
+      ['seekforward', (details) => seekBy(details.seekOffset ?? MEDIA_SESSION_SEEK_SECONDS)],
+    ]
+    // Browsers throw for actions they do not support; the remaining ones still work.
+    const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      try {
+        session.setActionHandler(action, handler)
+      } catch {
+        // Unsupported action.
+      }
+    }
+    actions.forEach(([action, handler]) => setHandler(action, handler))
+    return () => actions.forEach(([action]) => setHandler(action, null))
+  }, [handleNext, handlePlayPause, handlePrevious, handleSeek])
 
   const lyricsContent = useMemo(() => {
     if (!currentTrack) {
@@ -2294,12 +4279,157 @@ function App() {
         <Lyrics
           lyrics={lyricLines}
           currentIndex={clampedIndex}
+          currentTime={progress + currentLyricOffset / 1000}
+          onSeek={handleLyricSeek}
+          loopedIndex={abLoop?.lyricIndex ?? null}
+          onLoopLine={handleLyricLoop}
           className="mx-auto max-w-2xl"
-          scrollContainerRef={lyricsScrollRef}
+          scrollContainerRef={isImmersive ? immersiveScrollRef : lyricsScrollRef}
         />
       </Suspense>
     )
-  }, [currentTrack, activeLyricIndex, lyricsScrollRef])
+  }, [
+    currentTrack,
+    activeLyricIndex,
+    progress,
+    currentLyricOffset,
+    handleLyricSeek,
+    abLoop,
+    handleLyricLoop,
+    isImmersive,
+    immersiveScrollRef,
+    lyricsScrollRef,
+  ])
+
+  const enterImmersive = useCallback(() => {
+    setActivePanel('lyrics')
+    setIsImmersive(true)
+    if (typeof document === 'undefined') {
+      return
+    }
+    const root = document.documentElement
+    if (!document.fullscreenElement && typeof root.requestFullscreen === 'function') {
+      root.requestFullscreen().catch((error) => {
+        console.warn('Fullscreen request was rejected', error)
+      })
+    }
+  }, [])
+
+  const exitImmersive = useCallback(() => {
+    setIsImmersive(false)
+    if (typeof document !== 'undefined' && document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (typeof document === 'undefined') {
+      return
+    }
+    // Leaving fullscreen through the browser (Esc, F11) also leaves immersive mode.
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) {
+        setIsImmersive(false)
+      }
+    }
+    document.addEventListener('fullscreenchange', handleFullscreenChange)
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || isShortcutHelpOpen) {
+      return
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = matchShortcut(event)
+      if (!action) {
+        return
+      }
+      const audio = audioRef.current
+      const hasTrack = Boolean(currentTrackRef.current)
+      event.preventDefault()
+
+      switch (action) {
+        case 'playPause':
+          handlePlayPause()
+          break
+        case 'seekBackward':
+        case 'seekForward':
+          if (audio && hasTrack) {
+            const delta = action === 'seekForward' ? SHORTCUT_SEEK_SECONDS : -SHORTCUT_SEEK_SECONDS
+            const end = Number.isFinite(audio.duration) ? audio.duration : audio.currentTime + delta
+            handleSeek(Math.min(Math.max(audio.currentTime + delta, 0), end))
+          }
+          break
+        case 'volumeUp':
+        case 'volumeDown': {
+          const step = action === 'volumeUp' ? SHORTCUT_VOLUME_STEP : -SHORTCUT_VOLUME_STEP
+          handleVolumeChange(Math.round(Math.min(Math.max(volumeRef.current + step, 0), 1) * 100) / 100)
+          break
+        }
+        case 'previous':
+          handlePrevious()
+          break
+        case 'next':
+          handleNext()
+          break
+        case 'shuffle':
+          if (hasTrack && playlistRef.current.length > 1) {
+            toggleShuffle()
+          }
+          break
+        case 'repeat':
+          if (hasTrack) {
+            cycleRepeat()
+          }
+          break
+        case 'togglePanel':
+          if (isImmersive) {
+            exitImmersive()
+            setActivePanel('playlist')
+          } else {
+            setActivePanel((prev) => (prev === 'lyrics' ? 'playlist' : 'lyrics'))
+          }
+          break
+        case 'focusSearch':
+          if (isImmersive) {
+            exitImmersive()
+          }
+          searchInputRef.current?.focus()
+          searchInputRef.current?.select()
+          break
+        case 'cycleQuality': {
+          const index = AUDIO_QUALITY_OPTIONS.findIndex((option) => option.value === audioQuality)
+          handleAudioQualityChange(AUDIO_QUALITY_OPTIONS[(index + 1) % AUDIO_QUALITY_OPTIONS.length].value)
+          break
+        }
+        case 'help':
+          setIsShortcutHelpOpen(true)
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    audioQuality,
+    cycleRepeat,
+    exitImmersive,
+    handleAudioQualityChange,
+    handleNext,
+    handlePlayPause,
+    handlePrevious,
+    handleSeek,
+    handleVolumeChange,
+    isImmersive,
+    isShortcutHelpOpen,
+    toggleShuffle,
+  ])
+
+  const closeShortcutHelp = useCallback(() => setIsShortcutHelpOpen(false), [])
 
   const isBusy = isBuffering || isLoadingTrack
 
@@ -2313,10 +4443,17 @@ function App() {
 
   const timelineStyle = useMemo<CSSProperties>(() => {
     const percentage = Math.min(Math.max(progressPercent, 0), 100)
-    return {
-      background: `linear-gradient(90deg, var(--accent-color) 0%, var(--accent-strong) ${percentage}%, rgba(255, 255, 255, 0.24) ${percentage}%, rgba(255, 255, 255, 0.24) 100%)`,
+    const progressLayer = `linear-gradient(90deg, var(--accent-color) 0%, var(--accent-strong) ${percentage}%, rgba(255, 255, 255, 0.24) ${percentage}%, rgba(255, 255, 255, 0.24) 100%)`
+    if (!abLoop || !duration) {
+      return { background: progressLayer }
     }
-  }, [progressPercent])
+    // The A-B segment is drawn as a translucent band over the progress fill; a lone A is a tick.
+    const toPercent = (time: number) => Math.min(Math.max((time / duration) * 100, 0), 100)
+    const start = toPercent(abLoop.start)
+    const end = abLoop.end === null ? `calc(${start}% + 3px)` : `${toPercent(abLoop.end)}%`
+    const loopLayer = `linear-gradient(90deg, transparent ${start}%, rgba(255, 255, 255, 0.45) ${start}%, rgba(255, 255, 255, 0.45) ${end}, transparent ${end})`
+    return { background: `${loopLayer}, ${progressLayer}` }
+  }, [abLoop, duration, progressPercent])
 
   const volumeStyle = useMemo<CSSProperties>(() => {
     const percentage = Math.min(Math.max(volume * 100, 0), 100)
@@ -2350,10 +4487,16 @@ function App() {
   const playerSubtitle = currentTrack
     ? `${currentTrack.artists} · ${currentTrack.album}`
     : '搜索并选择一首歌曲开始播放'
-  const navigationDisabled = !isPlayerReady || playlist.length <= 1
+  const navigationDisabled = !isPlayerReady || (playlist.length <= 1 && !queue.length)
   const shuffleDisabled = !isPlayerReady || playlist.length <= 1
   const repeatDisabled = !isPlayerReady
 
+  const hasLyricTranslation = useMemo(
+    () => Boolean(currentTrack?.lyrics.some((line) => line.translation)),
+    [currentTrack],
+  )
+  const lyricOffsetLabel = `${currentLyricOffset > 0 ? '+' : ''}${(currentLyricOffset / 1000).toFixed(1)}s`
+
   const trimmedQuery = query.trim()
   const showSearchDropdown = trimmedQuery.length > 0
   const RepeatIconComponent = repeatMode === 'one' ? RepeatOneIcon : RepeatIcon
@@ -2363,7 +4506,15 @@ function App() {
 
   return (
     <div className="app" style={backgroundStyle}>
-      <div className="app-backdrop" style={generatedBackgroundStyle} />
+      {showAnimatedBackground ? (
+        <AnimatedBackground
+          className="app-backdrop-animated"
+          colors={backgroundColors}
+          getAnalyser={getVisualizerAnalyser}
+        />
+      ) : (
+        <div className="app-backdrop" style={generatedBackgroundStyle} />
+      )}
       <div className="app-overlay" />
       <h1 className="header-title">SOLARA MUSIC</h1>
       <main className="app-layout">
@@ -2375,6 +4526,15 @@ function App() {
               ) : (
                 <div className="album-placeholder" role="img" aria-label={albumArtAriaLabel} />
               )}
+              {visualizer.placement === 'artwork' && (
+                <Visualizer
+                  className="visualizer visualizer--artwork"
+                  getAnalyser={getVisualizerAnalyser}
+                  variant={visualizer.style}
+                  palette={palette}
+                  isActive={isPlaying}
+                />
+              )}
             </div>
 
             <div className="player-track-meta">
@@ -2383,25 +4543,44 @@ function App() {
             </div>
 
             <div className="player-progress">
-              <input
-                type="range"
-                min={0}
-                max={progressMax}
-                value={progressValue}
-                step={0.1}
-                onChange={(event) => handleSeek(Number(event.target.value))}
-                aria-valuemin={0}
-                aria-valuemax={progressMax}
-                aria-valuenow={progressValue}
-                aria-label="播放进度"
-                className="progress"
-                style={isPlayerReady ? timelineStyle : undefined}
-                disabled={!isPlayerReady}
-              />
+              <div className="progress-slider">
+                <input
+                  type="range"
+                  min={0}
+                  max={progressMax}
+                  value={progressValue}
+                  step={0.1}
+                  onChange={(event) => handleSeek(Number(event.target.value))}
+                  onMouseDown={(event) => {
+                    if (!event.shiftKey || !duration) {
+                      return
+                    }
+                    event.preventDefault()
+                    const rect = event.currentTarget.getBoundingClientRect()
+                    handleABLoopMark(((event.clientX - rect.left) / rect.width) * duration)
+                  }}
+                  aria-valuemin={0}
+                  aria-valuemax={progressMax}
+                  aria-valuenow={progressValue}
+                  aria-label="播放进度"
+                  className="progress"
+                  style={isPlayerReady ? timelineStyle : undefined}
+                  disabled={!isPlayerReady}
+                />
+                <ABLoopMarkers
+                  loop={abLoop}
+                  duration={duration}
+                  minLength={AB_LOOP_MIN_SECONDS}
+                  disabled={!isPlayerReady}
+                  onChange={setAbLoop}
+                />
+              </div>
               <div className="time-row">
                 <span className="time time-start">{formatTime(progressValue)}</span>
                 <div className="audio-quality-select-wrapper">
                   <AudioQualityDropdown value={audioQuality} onChange={handleAudioQualityChange} ariaLabel="选择音质" />
+                  <PlaybackRateDropdown value={playbackRate} onChange={setPlaybackRate} />
+                  <ABLoopControl loop={abLoop} disabled={!isPlayerReady} onToggle={handleABLoopToggle} />
                 </div>
                 <span className="time time-end">{formatTime(progressMax)}</span>
               </div>
@@ -2481,6 +4660,22 @@ function App() {
               <span className="vol-max" aria-hidden="true">
                 <SpeakerHighIcon />
               </span>
+              <SleepTimer timer={sleepTimer} onStart={handleSleepTimerStart} onCancel={handleSleepTimerCancel} />
+              <AudioSettings
+                transition={trackTransition}
+                onTransitionChange={setTrackTransition}
+                equalizer={equalizer}
+                onEqualizerChange={setEqualizer}
+                equalizerPresets={equalizerPresets}
+                onEqualizerPresetsChange={setEqualizerPresets}
+                isLoudnessNormalized={isLoudnessNormalized}
+                onLoudnessNormalizedChange={setIsLoudnessNormalized}
+                visualizer={visualizer}
+                onVisualizerChange={setVisualizer}
+                isAnimatedBackground={isAnimatedBackground}
+                onAnimatedBackgroundChange={setIsAnimatedBackground}
+                prefersReducedMotion={prefersReducedMotion}
+              />
             </div>
           </div>
         </section>
@@ -2496,6 +4691,7 @@ function App() {
                   >
                     <SearchIcon />
                     <input
+                      ref={searchInputRef}
                       value={query}
                       onChange={handleQueryInput}
                       placeholder="搜索艺术家、歌曲或专辑"
@@ -2513,23 +4709,87 @@ function App() {
                       {searchResults.map((track) => {
                         const trackKey = getTrackKey(track)
                         const fallbackLetter = track.name?.trim()?.[0]?.toUpperCase() || '?'
+                        const isPickerOpen = playlistPickerKey === trackKey
                         return (
-                          <button
-                            type="button"
-                            key={trackKey}
-                            className="search-result"
-                            role="option"
-                            onMouseDown={(event) => event.preventDefault()}
-                            onClick={() => handleSearchSelect(track)}
-                          >
-                            <span className="search-result-thumb" aria-hidden="true">
-                              <div className="cover-fallback">{fallbackLetter}</div>
-                            </span>
-                            <span className="search-result-meta">
-                              <span className="search-result-title">{track.name}</span>
-                              <span className="search-result-artist">{track.artist.join('、')}</span>
-                            </span>
-                          </button>
+                          <div key={trackKey} className="search-result-row">
+                            <button
+                              type="button"
+                              className="search-result"
+                              role="option"
+                              onMouseDown={(event) => event.preventDefault()}
+                              onClick={() => handleSearchSelect(track)}
+                            >
+                              <span className="search-result-thumb" aria-hidden="true">
+                                <div className="cover-fallback">{fallbackLetter}</div>
+                              </span>
+                              <span className="search-result-meta">
+                                <span className="search-result-title">{track.name}</span>
+                                <span className="search-result-artist">{track.artist.join('、')}</span>
+                              </span>
+                            </button>
+                            <div className="search-result-actions">
+                              <button
+                                type="button"
+                                className="search-result-action"
+                                onMouseDown={(event) => event.preventDefault()}
+                                onClick={() => handlePlayNext(searchResultToEntry(track))}
+                                aria-label={`下一首播放 ${track.name}`}
+                                title="下一首播放"
+                              >
+                                <ListStart aria-hidden="true" size={18} strokeWidth={1.9} />
+                              </button>
+                              <button
+                                type="button"
+                                className="search-result-action"
+                                onMouseDown={(event) => event.preventDefault()}
+                                onClick={() => handleAddToQueue(searchResultToEntry(track))}
+                                aria-label={`将 ${track.name} 添加到待播清单`}
+                                title="添加到待播清单"
+                              >
+                                <ListEnd aria-hidden="true" size={18} strokeWidth={1.9} />
+                              </button>
+                              <button
+                                type="button"
+                                className={`search-result-action${isPickerOpen ? ' is-active' : ''}`}
+                                onMouseDown={(event) => event.preventDefault()}
+                                onClick={() => setPlaylistPickerKey(isPickerOpen ? null : trackKey)}
+                                aria-expanded={isPickerOpen}
+                                aria-label={`将 ${track.name} 添加到播放列表`}
+                                title="添加到播放列表"
+                              >
+                                <ListPlus aria-hidden="true" size={18} strokeWidth={1.9} />
+                              </button>
+                            </div>
+                            {isPickerOpen && (
+                              <div
+                                className="search-result-picker"
+                                role="group"
+                                aria-label={`将 ${track.name} 添加到播放列表`}
+                              >
+                                <span className="search-result-picker__label">添加到</span>
+                                {playlistSummaries.map((item) => (
+                                  <button
+                                    type="button"
+                                    key={item.id}
+                                    className="search-result-picker__option"
+                                    onMouseDown={(event) => event.preventDefault()}
+                                    onClick={() => handleAddToPlaylist(track, item.id)}
+                                  >
+                                    {item.name}
+                                  </button>
+                                ))}
+                                <button
+                                  type="button"
+                                  className="search-result-picker__option search-result-picker__option--new"
+                                  onMouseDown={(event) => event.preventDefault()}
+                                  onClick={() => handleAddToNewPlaylist(track)}
+                                >
+                                  <Plus aria-hidden="true" size={14} strokeWidth={2} />
+                                  新建播放列表
+                                </button>
+                              </div>
+                            )}
+                          </div>
                         )
                       })}
                       {!isSearching && hasMoreResults && searchResults.length > 0 && (
@@ -2577,31 +4837,113 @@ function App() {
 
             <div
               className={`list-scroll${activePanel === 'lyrics' ? ' is-lyrics' : ''}`}
-              role={activePanel === 'playlist' ? 'listbox' : 'document'}
-              id={activePanel === 'playlist' ? 'panel-playlist' : 'panel-lyrics'}
-              aria-labelledby={activePanel === 'playlist' ? 'tab-playlist' : 'tab-lyrics'}
+              role={activePanel === 'lyrics' ? 'document' : 'listbox'}
+              id={`panel-${activePanel}`}
+              aria-labelledby={`tab-${activePanel}`}
             >
-              {activePanel === 'playlist' ? (
+              {activePanel === 'queue' ? (
+                <QueueView
+                  queue={queue}
+                  onSelect={handleQueueSelect}
+                  onRemove={handleRemoveFromQueue}
+                  onClear={handleClearQueue}
+                />
+              ) : activePanel === 'playlist' ? (
                 <PlaylistView
                   playlist={playlist}
+                  library={playlistSummaries}
+                  activePlaylistId={activePlaylistId}
                   currentTrackId={currentTrackId}
                   downloadQuality={downloadQuality}
                   onSelect={handlePlaylistSelect}
+                  onPlayNext={handlePlayNext}
+                  onAddToQueue={handleAddToQueue}
                   onDownload={handleDownloadTrack}
                   onRemove={handleRemoveTrack}
+                  onReorder={handleReorderPlaylist}
                   onClear={handleClearPlaylist}
                   onExport={handleExportPlaylist}
                   onImportChange={handleImportPlaylistChange}
                   importInputRef={importInputRef}
+                  onSwitchPlaylist={handleSwitchPlaylist}
+                  onCreatePlaylist={handleCreatePlaylist}
+                  onRenamePlaylist={handleRenamePlaylist}
+                  onDuplicatePlaylist={handleDuplicatePlaylist}
+                  onDeletePlaylist={handleDeletePlaylist}
+                  onBulkPlayNext={handleBulkPlayNext}
+                  onBulkDownload={handleBulkDownload}
+                  onBulkMove={handleBulkMove}
+                  onBulkExport={handleBulkExport}
+                  onBulkRemove={handleBulkRemove}
                 />
               ) : (
                 <div className="lyrics-panel">
+                  {visualizer.placement === 'lyrics' && (
+                    <Visualizer
+                      className="visualizer visualizer--lyrics"
+                      getAnalyser={getVisualizerAnalyser}
+                      variant={visualizer.style}
+                      palette={palette}
+                      isActive={isPlaying}
+                    />
+                  )}
                   <header className="lyrics-header">
                     <h2>{currentTrack ? currentTrack.title : '准备播放'}</h2>
                     {currentTrack && <p>{currentTrack.artists} · {currentTrack.album}</p>}
+                    {currentTrack && currentTrack.lyrics.length > 0 && (
+                      <LyricsExportMenu
+                        hasTranslation={hasLyricTranslation}
+                        includeSidecar={includeLyricSidecar}
+                        onExport={handleExportLyrics}
+                        onToggleSidecar={handleToggleLyricSidecar}
+                      />
+                    )}
+                    {currentTrack && (
+                      <button
+                        type="button"
+                        className="lyrics-immersive-btn"
+                        onClick={enterImmersive}
+                        aria-label="全屏沉浸式歌词"
+                        title="全屏沉浸式歌词"
+                      >
+                        <Maximize2 aria-hidden="true" size={16} strokeWidth={1.9} />
+                      </button>
+                    )}
+                    {currentTrack && currentTrack.lyrics.length > 0 && (
+                      <div className="lyrics-offset" role="group" aria-label="歌词时间偏移">
+                        <button
+                          type="button"
+                          className="lyrics-offset__btn"
+                          onClick={() => handleLyricOffsetChange(-LYRIC_OFFSET_STEP_MS)}
+                          aria-label="歌词延后 0.1 秒"
+                          title="歌词延后 0.1 秒"
+                        >
+                          <Minus aria-hidden="true" size={14} strokeWidth={2} />
+                        </button>
+                        <button
+                          type="button"
+                          className={`lyrics-offset__value${currentLyricOffset !== 0 ? ' is-adjusted' : ''}`}
+                          onClick={() => handleLyricOffsetChange(null)}
+                          disabled={currentLyricOffset === 0}
+                          aria-label="重置歌词偏移"
+                          title="正值表示歌词提前，点击重置"
+                        >
+                          {lyricOffsetLabel}
+                        </button>
+                        <button
+                          type="button"
+                          className="lyrics-offset__btn"
+                          onClick={() => handleLyricOffsetChange(LYRIC_OFFSET_STEP_MS)}
+                          aria-label="歌词提前 0.1 秒"
+                          title="歌词提前 0.1 秒"
+                        >
+                          <Plus aria-hidden="true" size={14} strokeWidth={2} />
+                        </button>
+                      </div>
+                    )}
                   </header>
                   <div ref={lyricsScrollRef} className="lyrics-view">
-                    <div className="lyrics-content">{lyricsContent}</div>
+                    <div className="lyrics-content">{isImmersive ? null : lyricsContent}</div>
                   </div>
                 </div>
               )}
@@ -2609,13 +4951,76 @@ function App() {
           </div>
         </aside>
       </main>
+      {isImmersive && (
+        <Suspense fallback={null}>
+          <ImmersiveLyrics
+            backdrop={displayedBg}
+            artworkUrl={currentTrack?.artworkUrl}
+            title={playerTitle}
+            subtitle={currentTrack ? playerSubtitle : undefined}
+            scrollContainerRef={immersiveScrollRef}
+            onExit={exitImmersive}
+            controls={
+              <>
+                <input
+                  type="range"
+                  min={0}
+                  max={progressMax}
+                  value={progressValue}
+                  step={0.1}
+                  onChange={(event) => handleSeek(Number(event.target.value))}
+                  aria-label="播放进度"
+                  className="progress"
+                  style={isPlayerReady ? timelineStyle : undefined}
+                  disabled={!isPlayerReady}
+                />
+                <div className="immersive-lyrics__transport">
+                  <span className="time">{formatTime(progressValue)}</span>
+                  <div className="main-controls" role="group" aria-label="播放控制">
+                    <button
+                      type="button"
+                      className="control-button icon-btn prev"
+                      onClick={handlePrevious}
+                      disabled={navigationDisabled}
+                      aria-label="上一首"
+                    >
+                      <PrevIcon />
+                    </button>
+                    <button
+                      type="button"
+                      className={`control-button icon-btn play-toggle${isBusy ? ' buffering' : ''}`}
+                      onClick={handlePlayPause}
+                      disabled={!isPlayerReady || isLoadingTrack}
+                      aria-label={isPlaying ? '暂停' : '播放'}
+                    >
+                      {isBusy ? <span className="sr-only">缓冲中</span> : isPlaying ? <PauseIcon /> : <PlayIcon />}
+                    </button>
+                    <button
+                      type="button"
+                      className="control-button icon-btn next"
+                      onClick={handleNext}
+                      disabled={navigationDisabled}
+                      aria-label="下一首"
+                    >
+                      <NextIcon />
+                    </button>
+                  </div>
+                  <span className="time">{formatTime(progressMax)}</span>
+                </div>
+              </>
+            }
+          >
+            <div className="lyrics-content">{lyricsContent}</div>
+          </ImmersiveLyrics>
+        </Suspense>
+      )}
       <div className="bottom-right" role="tablist" aria-label="内容切换">
         <button
           type="button"
           id="tab-lyrics"
           role="tab"
           className={`icon-btn${activePanel === 'lyrics' ? ' active' : ''}`}
-          onClick={() => setActivePanel('lyrics')}
+          onClick={() => (isImmersive ? exitImmersive() : setActivePanel('lyrics'))}
           aria-selected={activePanel === 'lyrics'}
           aria-controls="panel-lyrics"
           title="歌词"
@@ -2628,7 +5033,12 @@ function App() {
           id="tab-playlist"
           role="tab"
           className={`icon-btn${activePanel === 'playlist' ? ' active' : ''}`}
-          onClick={() => setActivePanel('playlist')}
+          onClick={() => {
+            if (isImmersive) {
+              exitImmersive()
+            }
+            setActivePanel('playlist')
+          }}
           aria-selected={activePanel === 'playlist'}
           aria-controls="panel-playlist"
           title="播放列表"
@@ -2636,7 +5046,26 @@ function App() {
           <PlaylistIcon />
           <span className="sr-only">显示播放列表</span>
         </button>
+        <button
+          type="button"
+          id="tab-queue"
+          role="tab"
+          className={`icon-btn${activePanel === 'queue' ? ' active' : ''}`}
+          onClick={() => {
+            if (isImmersive) {
+              exitImmersive()
+            }
+            setActivePanel('queue')
+          }}
+          aria-selected={activePanel === 'queue'}
+          aria-controls="panel-queue"
+          title="待播清单"
+        >
+          <ListOrdered aria-hidden="true" strokeWidth={1.9} />
+          <span className="sr-only">显示待播清单</span>
+        </button>
       </div>
+      {isShortcutHelpOpen && <ShortcutHelp onClose={closeShortcutHelp} />}
       <Toaster
         position="top-right"
         gutter={12}
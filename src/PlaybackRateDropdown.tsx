@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react'
+import { PLAYBACK_RATES, formatPlaybackRate } from './playbackRate'
+
+type PlaybackRateDropdownProps = {
+  value: number
+  onChange: (value: number) => void
+}
+
+export default function PlaybackRateDropdown({ value, onChange }: PlaybackRateDropdownProps) {
+  const [open, setOpen] = useState(false)
+  const btnRef = useRef<HTMLButtonElement | null>(null)
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null
+      if (target && !btnRef.current?.contains(target) && !menuRef.current?.contains(target)) {
+        setOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+        btnRef.current?.focus()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  return (
+    <div className={`source-dd audio-quality-dd playback-rate-dd${open ? ' is-open' : ''}`}>
+      <button
+        ref={btnRef}
+        type="button"
+        className={`source-dd__trigger${value !== 1 ? ' is-adjusted' : ''}`}
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-haspopup="listbox"
+        aria-label={`播放速度 ${formatPlaybackRate(value)}`}
+        title="播放速度（保持音调）"
+      >
+        {formatPlaybackRate(value)}
+      </button>
+      {open && (
+        <div ref={menuRef} className="source-dd__menu" role="listbox" aria-label="播放速度">
+          {PLAYBACK_RATES.map((rate) => (
+            <button
+              key={rate}
+              type="button"
+              onClick={() => {
+                if (rate !== value) {
+                  onChange(rate)
+                }
+                setOpen(false)
+              }}
+              className={`source-dd__item${rate === value ? ' is-active' : ''}`}
+              role="option"
+              aria-selected={rate === value}
+            >
+              {formatPlaybackRate(rate)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
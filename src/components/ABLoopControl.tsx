@@ -0,0 +1,121 @@
+import { useRef, type KeyboardEvent, type PointerEvent } from 'react'
+import { Repeat } from 'lucide-react'
+
+export interface ABLoopRange {
+  /** Loop start in seconds of audio time. */
+  start: number
+  /** Loop end; null while only point A has been marked. */
+  end: number | null
+  /** Lyric line the loop was snapped to, if it came from the lyrics view. */
+  lyricIndex?: number
+}
+
+interface ABLoopControlProps {
+  loop: ABLoopRange | null
+  disabled?: boolean
+  onToggle: () => void
+}
+
+interface ABLoopMarkersProps {
+  loop: ABLoopRange | null
+  duration: number
+  /** Shortest loop the markers can be dragged into, in seconds. */
+  minLength: number
+  disabled?: boolean
+  onChange: (loop: ABLoopRange) => void
+}
+
+type ABLoopPoint = 'start' | 'end'
+
+const MARKER_KEY_STEP_SECONDS = 1
+
+/** Draggable A and B flags laid over the progress slider, positioned in track percent. */
+export function ABLoopMarkers({ loop, duration, minLength, disabled, onChange }: ABLoopMarkersProps) {
+  const trackRef = useRef<HTMLDivElement | null>(null)
+
+  if (!loop || disabled || !(duration > 0)) {
+    return null
+  }
+
+  // Moving a marker keeps the loop at least `minLength` long and drops any lyric snapping.
+  const movePoint = (point: ABLoopPoint, time: number) => {
+    if (point === 'start') {
+      const latest = loop.end === null ? duration : Math.max(0, loop.end - minLength)
+      onChange({ start: Math.min(Math.max(time, 0), latest), end: loop.end })
+    } else {
+      onChange({ start: loop.start, end: Math.max(Math.min(time, duration), loop.start + minLength) })
+    }
+  }
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect()
+    return rect && rect.width > 0 ? ((clientX - rect.left) / rect.width) * duration : 0
+  }
+
+  const renderMarker = (point: ABLoopPoint, time: number, label: string) => (
+    <span
+      className={`ab-loop-marker ab-loop-marker--${point}`}
+      style={{ left: `${Math.min(Math.max((time / duration) * 100, 0), 100)}%` }}
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(time)}
+      title={`拖动调整${label}`}
+      onPointerDown={(event: PointerEvent<HTMLSpanElement>) => {
+        if (event.button !== 0) {
+          return
+        }
+        event.preventDefault()
+        event.currentTarget.setPointerCapture(event.pointerId)
+      }}
+      onPointerMove={(event: PointerEvent<HTMLSpanElement>) => {
+        if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+          movePoint(point, timeAt(event.clientX))
+        }
+      }}
+      onKeyDown={(event: KeyboardEvent<HTMLSpanElement>) => {
+        const direction =
+          event.key === 'ArrowLeft' || event.key === 'ArrowDown'
+            ? -1
+            : event.key === 'ArrowRight' || event.key === 'ArrowUp'
+              ? 1
+              : 0
+        if (direction) {
+          event.preventDefault()
+          movePoint(point, time + direction * MARKER_KEY_STEP_SECONDS)
+        }
+      }}
+    >
+      {point === 'start' ? 'A' : 'B'}
+    </span>
+  )
+
+  return (
+    <div ref={trackRef} className="ab-loop-markers">
+      {renderMarker('start', loop.start, '循环起点 A')}
+      {loop.end !== null && renderMarker('end', loop.end, '循环终点 B')}
+    </div>
+  )
+}
+
+export default function ABLoopControl({ loop, disabled, onToggle }: ABLoopControlProps) {
+  const isActive = loop !== null && loop.end !== null
+  const label = !loop ? '设置循环起点 A' : loop.end === null ? '设置循环终点 B' : '取消 A-B 循环'
+
+  return (
+    <button
+      type="button"
+      className={`ab-loop__trigger${loop ? ' is-marking' : ''}${isActive ? ' is-active' : ''}`}
+      onClick={onToggle}
+      disabled={disabled}
+      aria-pressed={isActive}
+      aria-label={label}
+      title={isActive ? label : `${label}（也可按住 Shift 点击进度条标记）`}
+    >
+      <Repeat aria-hidden="true" size={14} strokeWidth={2} />
+      <span>{loop && loop.end === null ? 'A-' : 'A-B'}</span>
+    </button>
+  )
+}
@@ -0,0 +1,92 @@
+import { memo, useEffect, useRef } from 'react'
+import {
+  DEFAULT_BACKGROUND_COLORS,
+  MESH_BACKGROUND_RESOLUTION,
+  blendBackgroundColors,
+  drawMeshBackgroundFrame,
+  type BackgroundColors,
+} from '../utils/background'
+
+interface AnimatedBackgroundProps {
+  colors: BackgroundColors | null
+  getAnalyser: () => AnalyserNode | null
+  className?: string
+}
+
+const FRAME_INTERVAL_MS = 1000 / 30
+/** Bins below this frequency count as the low end that drives the pulse. */
+const LOW_FREQUENCY_HZ = 150
+const COLOR_EASING = 0.03
+const ENERGY_ATTACK = 0.3
+const ENERGY_RELEASE = 0.06
+
+const AnimatedBackground = ({ colors, getAnalyser, className }: AnimatedBackgroundProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const targetColorsRef = useRef(colors ?? DEFAULT_BACKGROUND_COLORS)
+
+  useEffect(() => {
+    targetColorsRef.current = colors ?? DEFAULT_BACKGROUND_COLORS
+  }, [colors])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || typeof window === 'undefined') {
+      return
+    }
+
+    const resize = () => {
+      const aspect = canvas.clientWidth > 0 ? canvas.clientHeight / canvas.clientWidth : 1
+      canvas.width = MESH_BACKGROUND_RESOLUTION
+      canvas.height = Math.max(1, Math.round(MESH_BACKGROUND_RESOLUTION * aspect))
+    }
+    resize()
+    window.addEventListener('resize', resize)
+
+    let colorsNow = targetColorsRef.current
+    let energy = 0
+    let buffer: Uint8Array<ArrayBuffer> | null = null
+    let lastFrame = 0
+    let frame = 0
+
+    const readLowEnergy = () => {
+      const analyser = getAnalyser()
+      if (!analyser) {
+        return 0
+      }
+      if (!buffer || buffer.length !== analyser.frequencyBinCount) {
+        buffer = new Uint8Array(analyser.frequencyBinCount)
+      }
+      analyser.getByteFrequencyData(buffer)
+      const binHz = analyser.context.sampleRate / analyser.fftSize
+      const lastBin = Math.max(2, Math.round(LOW_FREQUENCY_HZ / binHz))
+      let sum = 0
+      for (let bin = 1; bin <= lastBin; bin += 1) {
+        sum += buffer[bin]
+      }
+      return sum / lastBin / 255
+    }
+
+    const render = (timestamp: number) => {
+      frame = window.requestAnimationFrame(render)
+      if (timestamp - lastFrame < FRAME_INTERVAL_MS) {
+        return
+      }
+      lastFrame = timestamp
+      const level = readLowEnergy()
+      energy += (level - energy) * (level > energy ? ENERGY_ATTACK : ENERGY_RELEASE)
+      colorsNow = blendBackgroundColors(colorsNow, targetColorsRef.current, COLOR_EASING)
+      drawMeshBackgroundFrame(context, colorsNow, timestamp / 1000, energy)
+    }
+    frame = window.requestAnimationFrame(render)
+
+    return () => {
+      window.cancelAnimationFrame(frame)
+      window.removeEventListener('resize', resize)
+    }
+  }, [getAnalyser])
+
+  return <canvas ref={canvasRef} className={className} aria-hidden="true" />
+}
+
+export default memo(AnimatedBackground)
@@ -0,0 +1,220 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { SlidersHorizontal } from 'lucide-react'
+import { CROSSFADE_MAX_SECONDS, CROSSFADE_MIN_SECONDS } from '../utils/audioEngine'
+import type { TrackTransitionMode, TrackTransitionSettings } from '../utils/audioEngine'
+import type { EqualizerPreset, EqualizerSettings } from '../utils/equalizer'
+import { LOUDNESS_TARGET_LUFS } from '../utils/loudness'
+import type { VisualizerPlacement, VisualizerSettings, VisualizerStyle } from '../utils/visualizer'
+import EqualizerPanel from './EqualizerPanel'
+
+interface AudioSettingsProps {
+  transition: TrackTransitionSettings
+  onTransitionChange: (settings: TrackTransitionSettings) => void
+  equalizer: EqualizerSettings
+  onEqualizerChange: (settings: EqualizerSettings) => void
+  equalizerPresets: EqualizerPreset[]
+  onEqualizerPresetsChange: (presets: EqualizerPreset[]) => void
+  isLoudnessNormalized: boolean
+  onLoudnessNormalizedChange: (enabled: boolean) => void
+  visualizer: VisualizerSettings
+  onVisualizerChange: (settings: VisualizerSettings) => void
+  isAnimatedBackground: boolean
+  onAnimatedBackgroundChange: (enabled: boolean) => void
+  prefersReducedMotion: boolean
+}
+
+const TRANSITION_OPTIONS: Array<{ label: string; value: TrackTransitionMode; hint: string }> = [
+  { label: '关闭', value: 'off', hint: '上一首播放结束后再载入下一首' },
+  { label: '交叉淡化', value: 'crossfade', hint: '两首歌在切换时相互淡入淡出' },
+  { label: '无缝衔接', value: 'gapless', hint: '提前缓冲下一首，适合连续的专辑曲目' },
+]
+
+const VISUALIZER_PLACEMENTS: Array<{ label: string; value: VisualizerPlacement }> = [
+  { label: '关闭', value: 'off' },
+  { label: '封面上', value: 'artwork' },
+  { label: '歌词后', value: 'lyrics' },
+]
+
+const VISUALIZER_STYLES: Array<{ label: string; value: VisualizerStyle }> = [
+  { label: '柱状', value: 'bars' },
+  { label: '波形', value: 'wave' },
+  { label: '环形', value: 'circle' },
+]
+
+export default function AudioSettings({
+  transition,
+  onTransitionChange,
+  equalizer,
+  onEqualizerChange,
+  equalizerPresets,
+  onEqualizerPresetsChange,
+  isLoudnessNormalized,
+  onLoudnessNormalizedChange,
+  visualizer,
+  onVisualizerChange,
+  isAnimatedBackground,
+  onAnimatedBackgroundChange,
+  prefersReducedMotion,
+}: AudioSettingsProps) {
+  const [open, setOpen] = useState(false)
+  const btnRef = useRef<HTMLButtonElement | null>(null)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+  const panelId = useId()
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null
+      if (target && !btnRef.current?.contains(target) && !panelRef.current?.contains(target)) {
+        setOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+        btnRef.current?.focus()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  const activeOption = TRANSITION_OPTIONS.find((option) => option.value === transition.mode)
+
+  return (
+    <div className="audio-settings">
+      <button
+        ref={btnRef}
+        type="button"
+        className={`audio-settings__trigger${open ? ' is-open' : ''}`}
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-controls={panelId}
+        aria-label="音频设置"
+        title="音频设置"
+      >
+        <SlidersHorizontal aria-hidden="true" size={18} strokeWidth={1.9} />
+      </button>
+      {open && (
+        <div ref={panelRef} id={panelId} className="audio-settings__panel" role="dialog" aria-label="音频设置">
+          <section className="audio-settings__section">
+            <h3>切歌过渡</h3>
+            <div className="audio-settings__segmented" role="radiogroup" aria-label="切歌过渡">
+              {TRANSITION_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={option.value === transition.mode}
+                  className={`audio-settings__segment${option.value === transition.mode ? ' is-active' : ''}`}
+                  onClick={() => onTransitionChange({ ...transition, mode: option.value })}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {activeOption && <p className="audio-settings__hint">{activeOption.hint}</p>}
+            {transition.mode === 'crossfade' && (
+              <label className="audio-settings__range">
+                <span>淡化时长</span>
+                <input
+                  type="range"
+                  min={CROSSFADE_MIN_SECONDS}
+                  max={CROSSFADE_MAX_SECONDS}
+                  step={1}
+                  value={transition.crossfadeSeconds}
+                  onChange={(event) =>
+                    onTransitionChange({ ...transition, crossfadeSeconds: Number(event.target.value) })
+                  }
+                />
+                <output>{transition.crossfadeSeconds}s</output>
+              </label>
+            )}
+          </section>
+          <section className="audio-settings__section">
+            <div className="audio-settings__heading">
+              <h3>响度均衡</h3>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={isLoudnessNormalized}
+                aria-label="启用响度均衡"
+                className={`audio-settings__switch${isLoudnessNormalized ? ' is-on' : ''}`}
+                onClick={() => onLoudnessNormalizedChange(!isLoudnessNormalized)}
+              />
+            </div>
+            <p className="audio-settings__hint">
+              边播放边测量每首歌的响度并统一到 {LOUDNESS_TARGET_LUFS} LUFS，测得的增益会按歌曲缓存，限幅器防止削波
+            </p>
+          </section>
+          <section className="audio-settings__section">
+            <h3>可视化</h3>
+            <div className="audio-settings__segmented" role="radiogroup" aria-label="可视化位置">
+              {VISUALIZER_PLACEMENTS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={option.value === visualizer.placement}
+                  className={`audio-settings__segment${option.value === visualizer.placement ? ' is-active' : ''}`}
+                  onClick={() => onVisualizerChange({ ...visualizer, placement: option.value })}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {visualizer.placement !== 'off' && (
+              <div className="audio-settings__segmented" role="radiogroup" aria-label="可视化样式">
+                {VISUALIZER_STYLES.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={option.value === visualizer.style}
+                    className={`audio-settings__segment${option.value === visualizer.style ? ' is-active' : ''}`}
+                    onClick={() => onVisualizerChange({ ...visualizer, style: option.value })}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+          <section className="audio-settings__section">
+            <div className="audio-settings__heading">
+              <h3>动态背景</h3>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={isAnimatedBackground}
+                aria-label="启用动态背景"
+                className={`audio-settings__switch${isAnimatedBackground ? ' is-on' : ''}`}
+                onClick={() => onAnimatedBackgroundChange(!isAnimatedBackground)}
+              />
+            </div>
+            <p className="audio-settings__hint">
+              {prefersReducedMotion
+                ? '系统已开启“减少动态效果”，将继续使用静态背景'
+                : '由封面颜色生成缓慢流动的渐变背景，并随低频节奏轻微律动'}
+            </p>
+          </section>
+          <EqualizerPanel
+            settings={equalizer}
+            onChange={onEqualizerChange}
+            customPresets={equalizerPresets}
+            onCustomPresetsChange={onEqualizerPresetsChange}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
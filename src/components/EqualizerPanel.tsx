@@ -0,0 +1,145 @@
+import { X } from 'lucide-react'
+import { BUILT_IN_EQ_PRESETS, CUSTOM_EQ_PRESET_ID, EQ_BANDS, EQ_GAIN_LIMIT } from '../utils/equalizer'
+import type { EqualizerPreset, EqualizerSettings } from '../utils/equalizer'
+
+interface EqualizerPanelProps {
+  settings: EqualizerSettings
+  onChange: (settings: EqualizerSettings) => void
+  customPresets: EqualizerPreset[]
+  onCustomPresetsChange: (presets: EqualizerPreset[]) => void
+}
+
+const formatBand = (frequency: number) => (frequency >= 1000 ? `${frequency / 1000}k` : String(frequency))
+
+const formatDb = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`
+
+export default function EqualizerPanel({
+  settings,
+  onChange,
+  customPresets,
+  onCustomPresetsChange,
+}: EqualizerPanelProps) {
+  const applyPreset = (preset: EqualizerPreset) => {
+    onChange({ ...settings, enabled: true, gains: [...preset.gains], preamp: preset.preamp, presetId: preset.id })
+  }
+
+  const handleBandChange = (bandIndex: number, value: number) => {
+    const gains = settings.gains.map((gain, index) => (index === bandIndex ? value : gain))
+    onChange({ ...settings, gains, presetId: CUSTOM_EQ_PRESET_ID })
+  }
+
+  const handleSavePreset = () => {
+    const name = window.prompt('为当前均衡器设置命名', '我的预设')?.trim()
+    if (!name) {
+      return
+    }
+    const existing = customPresets.find((preset) => preset.name === name)
+    const preset: EqualizerPreset = {
+      id: existing?.id ?? `user-${Date.now().toString(36)}`,
+      name,
+      gains: [...settings.gains],
+      preamp: settings.preamp,
+    }
+    onCustomPresetsChange(
+      existing
+        ? customPresets.map((item) => (item.id === existing.id ? preset : item))
+        : [...customPresets, preset],
+    )
+    onChange({ ...settings, presetId: preset.id })
+  }
+
+  const handleDeletePreset = (preset: EqualizerPreset) => {
+    if (!window.confirm(`确定要删除预设「${preset.name}」吗？`)) {
+      return
+    }
+    onCustomPresetsChange(customPresets.filter((item) => item.id !== preset.id))
+    if (settings.presetId === preset.id) {
+      onChange({ ...settings, presetId: CUSTOM_EQ_PRESET_ID })
+    }
+  }
+
+  return (
+    <section className={`audio-settings__section equalizer${settings.enabled ? '' : ' is-disabled'}`}>
+      <div className="audio-settings__heading">
+        <h3>均衡器</h3>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={settings.enabled}
+          aria-label="启用均衡器"
+          className={`audio-settings__switch${settings.enabled ? ' is-on' : ''}`}
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        />
+      </div>
+
+      <div className="equalizer__presets" role="group" aria-label="均衡器预设">
+        {[...BUILT_IN_EQ_PRESETS, ...customPresets].map((preset) => {
+          const isCustom = !BUILT_IN_EQ_PRESETS.includes(preset)
+          return (
+            <span
+              key={preset.id}
+              className={`equalizer__preset${settings.presetId === preset.id ? ' is-active' : ''}`}
+            >
+              <button type="button" onClick={() => applyPreset(preset)} aria-pressed={settings.presetId === preset.id}>
+                {preset.name}
+              </button>
+              {isCustom && (
+                <button
+                  type="button"
+                  className="equalizer__preset-remove"
+                  onClick={() => handleDeletePreset(preset)}
+                  aria-label={`删除预设 ${preset.name}`}
+                >
+                  <X aria-hidden="true" size={12} strokeWidth={2.2} />
+                </button>
+              )}
+            </span>
+          )
+        })}
+      </div>
+
+      <label className="audio-settings__range">
+        <span>前级增益</span>
+        <input
+          type="range"
+          min={-EQ_GAIN_LIMIT}
+          max={EQ_GAIN_LIMIT}
+          step={0.5}
+          value={settings.preamp}
+          disabled={!settings.enabled}
+          onChange={(event) =>
+            onChange({ ...settings, preamp: Number(event.target.value), presetId: CUSTOM_EQ_PRESET_ID })
+          }
+        />
+        <output>{formatDb(settings.preamp)}</output>
+      </label>
+
+      <div className="equalizer__bands">
+        {EQ_BANDS.map((frequency, index) => (
+          <label key={frequency} className="equalizer__band" title={formatDb(settings.gains[index] ?? 0)}>
+            <input
+              type="range"
+              min={-EQ_GAIN_LIMIT}
+              max={EQ_GAIN_LIMIT}
+              step={0.5}
+              value={settings.gains[index] ?? 0}
+              disabled={!settings.enabled}
+              onChange={(event) => handleBandChange(index, Number(event.target.value))}
+              aria-label={`${formatBand(frequency)}Hz 增益`}
+            />
+            <span>{formatBand(frequency)}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="equalizer__actions">
+        <button type="button" onClick={handleSavePreset} disabled={!settings.enabled}>
+          保存为预设
+        </button>
+        <button type="button" onClick={() => applyPreset(BUILT_IN_EQ_PRESETS[0])} disabled={!settings.enabled}>
+          重置
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,96 @@
+import { memo, useCallback, useEffect, useRef, useState } from 'react'
+import type { CSSProperties, MutableRefObject, ReactNode, RefObject } from 'react'
+
+interface ImmersiveLyricsProps {
+  backdrop: string | null
+  artworkUrl?: string
+  title: string
+  subtitle?: string
+  scrollContainerRef: RefObject<HTMLDivElement | null> | MutableRefObject<HTMLDivElement | null>
+  controls: ReactNode
+  onExit: () => void
+  children: ReactNode
+}
+
+const CONTROLS_IDLE_MS = 3000
+
+const ImmersiveLyrics = ({
+  backdrop,
+  artworkUrl,
+  title,
+  subtitle,
+  scrollContainerRef,
+  controls,
+  onExit,
+  children,
+}: ImmersiveLyricsProps) => {
+  const [isControlsVisible, setIsControlsVisible] = useState(true)
+  const idleTimeoutRef = useRef<number | null>(null)
+
+  const revealControls = useCallback(() => {
+    setIsControlsVisible(true)
+    if (idleTimeoutRef.current !== null) {
+      window.clearTimeout(idleTimeoutRef.current)
+    }
+    idleTimeoutRef.current = window.setTimeout(() => {
+      setIsControlsVisible(false)
+      idleTimeoutRef.current = null
+    }, CONTROLS_IDLE_MS)
+  }, [])
+
+  useEffect(() => {
+    revealControls()
+    return () => {
+      if (idleTimeoutRef.current !== null) {
+        window.clearTimeout(idleTimeoutRef.current)
+        idleTimeoutRef.current = null
+      }
+    }
+  }, [revealControls])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onExit()
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onExit])
+
+  const style = {
+    '--immersive-backdrop': backdrop ? `url(${backdrop})` : 'none',
+  } as CSSProperties
+
+  return (
+    <div
+      className={`immersive-lyrics${isControlsVisible ? '' : ' is-idle'}`}
+      style={style}
+      role="dialog"
+      aria-modal="true"
+      aria-label="沉浸式歌词"
+      onPointerMove={revealControls}
+      onPointerDown={revealControls}
+      onFocusCapture={revealControls}
+    >
+      <div className="immersive-lyrics__backdrop" aria-hidden="true" />
+      <header className="immersive-lyrics__meta">
+        {artworkUrl ? <img className="immersive-lyrics__artwork" src={artworkUrl} alt="" /> : null}
+        <div className="immersive-lyrics__titles">
+          <h2>{title}</h2>
+          {subtitle ? <p>{subtitle}</p> : null}
+        </div>
+      </header>
+      <div ref={scrollContainerRef} className="immersive-lyrics__scroll">
+        {children}
+      </div>
+      <div className="immersive-lyrics__controls">
+        {controls}
+      </div>
+    </div>
+  )
+}
+
+export default memo(ImmersiveLyrics)
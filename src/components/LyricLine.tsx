@@ -1,19 +1,70 @@
 import { motion, useAnimationControls } from 'framer-motion'
-import { forwardRef, useEffect } from 'react'
+import { forwardRef, memo, useEffect } from 'react'
+import { Repeat } from 'lucide-react'
+import type { CSSProperties } from 'react'
+import type { LyricBackgroundVocal, LyricWord } from '../utils/lyrics'
 
 export interface LyricLineProps {
   text: string
   translation?: string
+  romanization?: string
+  words?: LyricWord[]
+  background?: LyricBackgroundVocal
+  align?: 'start' | 'end'
+  currentTime?: number
   isActive: boolean
   lineIndex: number
   distanceFromActive: number
+  onSelect?: (index: number) => void
+  /** Loops this line; the button is shown on hover and while the line is looping. */
+  onLoop?: (index: number) => void
+  isLooping?: boolean
 }
 
 const baseClasses =
   'lyrics-line relative w-full max-w-2xl text-center transition-all duration-500 ease-out will-change-transform'
 
+const getWordProgress = (word: LyricWord, currentTime: number) => {
+  if (currentTime <= word.time) return 0
+  if (currentTime >= word.endTime) return 100
+  const span = word.endTime - word.time
+  return span > 0 ? ((currentTime - word.time) / span) * 100 : 100
+}
+
+const renderWords = (words: LyricWord[], currentTime: number) =>
+  words.map((word, index) => (
+    <span
+      key={`${index}-${word.time}`}
+      className="lyrics-word"
+      style={
+        {
+          '--word-progress': `${getWordProgress(word, currentTime).toFixed(2)}%`,
+        } as CSSProperties
+      }
+    >
+      {word.text}
+    </span>
+  ))
+
 const LyricLine = forwardRef<HTMLDivElement, LyricLineProps>(
-  ({ text, translation, isActive, distanceFromActive, lineIndex }, ref) => {
+  (
+    {
+      text,
+      translation,
+      romanization,
+      words,
+      background,
+      align,
+      currentTime,
+      isActive,
+      distanceFromActive,
+      lineIndex,
+      onSelect,
+      onLoop,
+      isLooping,
+    },
+    ref,
+  ) => {
     const controls = useAnimationControls()
 
     const getOpacityForDistance = (distance: number) => {
@@ -53,19 +104,77 @@ const LyricLine = forwardRef<HTMLDivElement, LyricLineProps>(
       <motion.div
         ref={ref}
         data-index={lineIndex}
-        className={[baseClasses, toneClass]
+        className={[
+          baseClasses,
+          toneClass,
+          align ? `lyrics-line--duet-${align}` : '',
+          onSelect ? 'is-selectable' : '',
+          isLooping ? 'is-looping' : '',
+        ]
           .filter(Boolean)
           .join(' ')}
         initial={{ opacity: targetOpacity, scale: targetScale }}
         animate={controls}
       >
-        <span className="lyrics-text block whitespace-pre-line text-lg font-medium leading-tight md:text-xl">
-          {text}
-        </span>
-        {translation ? (
-          <span className="lyrics-translation mt-2 block whitespace-pre-line text-base text-white/60">
-            {translation}
-          </span>
+        {/* The loop button sits beside the clickable text, since buttons cannot nest. */}
+        <div
+          className="lyrics-line__content"
+          role={onSelect ? 'button' : undefined}
+          tabIndex={onSelect ? 0 : undefined}
+          onClick={onSelect ? () => onSelect(lineIndex) : undefined}
+          onKeyDown={
+            onSelect
+              ? (event) => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault()
+                    onSelect(lineIndex)
+                  }
+                }
+              : undefined
+          }
+        >
+          {isActive && words?.length ? (
+            <span className="lyrics-text lyrics-text--karaoke block whitespace-pre-line text-lg font-medium leading-tight md:text-xl">
+              {renderWords(words, currentTime ?? 0)}
+            </span>
+          ) : !text && !background ? (
+            <span className="lyrics-text lyrics-interlude" aria-hidden="true">
+              • • •
+            </span>
+          ) : text ? (
+            <span className="lyrics-text block whitespace-pre-line text-lg font-medium leading-tight md:text-xl">
+              {text}
+            </span>
+          ) : null}
+          {background ? (
+            <span className="lyrics-background block whitespace-pre-line text-sm">
+              {isActive && background.words?.length
+                ? renderWords(background.words, currentTime ?? 0)
+                : background.text}
+            </span>
+          ) : null}
+          {translation ? (
+            <span className="lyrics-translation mt-2 block whitespace-pre-line text-base text-white/60">
+              {translation}
+            </span>
+          ) : null}
+          {romanization ? (
+            <span className="lyrics-romanization mt-1 block whitespace-pre-line text-sm text-white/50">
+              {romanization}
+            </span>
+          ) : null}
+        </div>
+        {onLoop && (text || background) ? (
+          <button
+            type="button"
+            className={`lyrics-line__loop${isLooping ? ' is-active' : ''}`}
+            onClick={() => onLoop(lineIndex)}
+            aria-pressed={Boolean(isLooping)}
+            aria-label={isLooping ? '取消循环这一句' : '循环这一句'}
+            title={isLooping ? '取消循环这一句' : '循环这一句'}
+          >
+            <Repeat aria-hidden="true" size={14} strokeWidth={2} />
+          </button>
         ) : null}
       </motion.div>
     )
@@ -74,4 +183,4 @@ const LyricLine = forwardRef<HTMLDivElement, LyricLineProps>(
 
 LyricLine.displayName = 'LyricLine'
 
-export default LyricLine
+export default memo(LyricLine)
@@ -10,29 +10,54 @@ import {
 } from 'react'
 // ✅ Performance optimized automatically by Codex
 import LyricLine from './LyricLine'
+import type { LyricBackgroundVocal, LyricWord } from '../utils/lyrics'
 
 interface LyricItem {
+  time: number
   text: string
   translation?: string
+  romanization?: string
+  words?: LyricWord[]
+  agent?: string
+  background?: LyricBackgroundVocal
 }
 
 interface LyricsProps {
   lyrics: LyricItem[]
   currentIndex: number
+  currentTime?: number
+  onSeek?: (time: number) => void
+  /** Line currently looped with the A-B loop. */
+  loopedIndex?: number | null
+  onLoopLine?: (index: number) => void
   className?: string
   scrollContainerRef?: RefObject<HTMLDivElement | null> | MutableRefObject<HTMLDivElement | null>
 }
 
+const USER_SCROLL_SETTLE_MS = 3000
+const AUTO_SCROLL_DURATION_MS = 320
+
 const baseContainerClass =
   'relative flex h-full w-full flex-col items-center overflow-hidden text-center'
 
-const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }: LyricsProps) => {
+const LyricsComponent = ({
+  lyrics,
+  currentIndex,
+  currentTime,
+  onSeek,
+  loopedIndex,
+  onLoopLine,
+  className,
+  scrollContainerRef,
+}: LyricsProps) => {
   const containerRef = useRef<HTMLDivElement>(null)
   const lineRefs = useRef<(HTMLDivElement | null)[]>([])
+  const lineRefCallbacks = useRef(new Map<number, (node: HTMLDivElement | null) => void>())
   const [isUserScrolling, setIsUserScrolling] = useState(false)
   const scrollAnimationRef = useRef<number | null>(null)
   const scrollFrameRef = useRef<number | null>(null)
   const scrollSettledTimeoutRef = useRef<number | null>(null)
+  const autoScrollUntilRef = useRef(0)
 
   useEffect(() => {
     setIsUserScrolling(false)
@@ -73,8 +98,10 @@ const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }
       return
     }
 
-    const duration = 320
+    const duration = AUTO_SCROLL_DURATION_MS
     const startTime = window.performance?.now?.() ?? Date.now()
+    // Scroll events fired by this animation must not count as manual scrolling.
+    autoScrollUntilRef.current = startTime + duration + 100
 
     const easeOutCubic = (value: number) => 1 - Math.pow(1 - value, 3)
 
@@ -99,6 +126,11 @@ const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }
       return
     }
 
+    const now = window.performance?.now?.() ?? Date.now()
+    if (now < autoScrollUntilRef.current) {
+      return
+    }
+
     if (scrollFrameRef.current !== null) {
       window.cancelAnimationFrame(scrollFrameRef.current)
     }
@@ -111,7 +143,7 @@ const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }
       scrollSettledTimeoutRef.current = window.setTimeout(() => {
         setIsUserScrolling(false)
         scrollSettledTimeoutRef.current = null
-      }, 180)
+      }, USER_SCROLL_SETTLE_MS)
     })
   }, [])
 
@@ -128,6 +160,41 @@ const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }
     }
   }, [handleScroll, scrollContainerRef])
 
+  const getLineRef = useCallback((index: number) => {
+    let callback = lineRefCallbacks.current.get(index)
+    if (!callback) {
+      callback = (node: HTMLDivElement | null) => {
+        lineRefs.current[index] = node
+      }
+      lineRefCallbacks.current.set(index, callback)
+    }
+    return callback
+  }, [])
+
+  const handleLineSelect = useCallback(
+    (index: number) => {
+      const line = lyrics[index]
+      if (!line || !onSeek) {
+        return
+      }
+      if (typeof window !== 'undefined' && scrollSettledTimeoutRef.current !== null) {
+        window.clearTimeout(scrollSettledTimeoutRef.current)
+        scrollSettledTimeoutRef.current = null
+      }
+      setIsUserScrolling(false)
+      onSeek(line.time)
+    },
+    [lyrics, onSeek],
+  )
+
+  const handleReturnToActive = useCallback(() => {
+    if (typeof window !== 'undefined' && scrollSettledTimeoutRef.current !== null) {
+      window.clearTimeout(scrollSettledTimeoutRef.current)
+      scrollSettledTimeoutRef.current = null
+    }
+    setIsUserScrolling(false)
+  }, [])
+
   const scrollToActiveLine = useCallback(() => {
     if (isUserScrolling) {
       return
@@ -152,6 +219,20 @@ const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }
     scrollToActiveLine()
   }, [scrollToActiveLine, currentIndex, lyrics])
 
+  // Duets: the first singer stays on the leading side, every other singer moves opposite.
+  const lineAlignments = useMemo(() => {
+    const agents = Array.from(
+      new Set(lyrics.map((line) => line.agent).filter((agent): agent is string => Boolean(agent))),
+    )
+    if (agents.length < 2) {
+      return null
+    }
+    const [primaryAgent] = agents
+    return lyrics.map((line) =>
+      line.agent ? (line.agent === primaryAgent ? ('start' as const) : ('end' as const)) : undefined,
+    )
+  }, [lyrics])
+
   const containerClassName = useMemo(() => {
     return [baseContainerClass, className].filter(Boolean).join(' ')
   }, [className])
@@ -179,18 +260,29 @@ const LyricsComponent = ({ lyrics, currentIndex, className, scrollContainerRef }
             return (
               <LyricLine
                 key={key}
-                ref={(node) => {
-                  lineRefs.current[index] = node
-                }}
+                ref={getLineRef(index)}
                 lineIndex={index}
                 text={line.text}
                 translation={line.translation}
+                romanization={line.romanization}
+                words={line.words}
+                background={line.background}
+                align={lineAlignments?.[index]}
+                currentTime={isActive ? currentTime : undefined}
+                onSelect={onSeek ? handleLineSelect : undefined}
+                onLoop={onLoopLine}
+                isLooping={index === loopedIndex}
                 isActive={isActive}
                 distanceFromActive={distanceFromActive}
               />
             )
           })}
         </div>
+        {isUserScrolling && (
+          <button type="button" className="lyrics-return-btn" onClick={handleReturnToActive}>
+            回到当前歌词
+          </button>
+        )}
       </div>
     </div>
   )
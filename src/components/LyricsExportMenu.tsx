@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react'
+import { Check, FileDown } from 'lucide-react'
+import type { LyricExportFormat } from '../utils/lyrics'
+
+interface LyricsExportMenuProps {
+  hasTranslation: boolean
+  includeSidecar: boolean
+  onExport: (format: LyricExportFormat) => void
+  onToggleSidecar: () => void
+}
+
+const OPTIONS: Array<{ label: string; value: LyricExportFormat }> = [
+  { label: '导出 LRC', value: 'lrc' },
+  { label: '导出双语 LRC', value: 'bilingual-lrc' },
+  { label: '导出 SRT 字幕', value: 'srt' },
+  { label: '导出纯文本', value: 'txt' },
+]
+
+export default function LyricsExportMenu({
+  hasTranslation,
+  includeSidecar,
+  onExport,
+  onToggleSidecar,
+}: LyricsExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const btnRef = useRef<HTMLButtonElement | null>(null)
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null
+      if (target && !btnRef.current?.contains(target) && !menuRef.current?.contains(target)) {
+        setOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+        btnRef.current?.focus()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  return (
+    <div className="lyrics-export">
+      <button
+        ref={btnRef}
+        type="button"
+        className="lyrics-export__trigger"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        aria-label="导出歌词"
+        title="导出歌词"
+      >
+        <FileDown aria-hidden="true" size={16} strokeWidth={1.9} />
+      </button>
+      {open && (
+        <div ref={menuRef} className="source-dd__menu lyrics-export__menu" role="menu">
+          {OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className="source-dd__item"
+              role="menuitem"
+              disabled={option.value === 'bilingual-lrc' && !hasTranslation}
+              onClick={() => {
+                onExport(option.value)
+                setOpen(false)
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+          <div className="lyrics-export__divider" role="separator" />
+          <button
+            type="button"
+            className="source-dd__item lyrics-export__toggle"
+            role="menuitemcheckbox"
+            aria-checked={includeSidecar}
+            onClick={onToggleSidecar}
+          >
+            <span>下载歌曲时附带 .lrc</span>
+            {includeSidecar && <Check aria-hidden="true" size={14} strokeWidth={2.2} />}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download, FileDown, FolderInput, ListStart, Trash2, X } from 'lucide-react'
+import type { PlaylistSummary } from './PlaylistSwitcher'
+
+interface PlaylistBulkBarProps {
+  selectedCount: number
+  totalCount: number
+  /** Playlists the selection can be moved to; the active playlist is left out. */
+  moveTargets: PlaylistSummary[]
+  onToggleAll: () => void
+  onPlayNext: () => void
+  onDownload: () => void
+  onMove: (playlistId: string) => void
+  onExport: () => void
+  onRemove: () => void
+  onClear: () => void
+}
+
+export default function PlaylistBulkBar({
+  selectedCount,
+  totalCount,
+  moveTargets,
+  onToggleAll,
+  onPlayNext,
+  onDownload,
+  onMove,
+  onExport,
+  onRemove,
+  onClear,
+}: PlaylistBulkBarProps) {
+  const [moveOpen, setMoveOpen] = useState(false)
+  const btnRef = useRef<HTMLButtonElement | null>(null)
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!moveOpen) {
+      return
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null
+      if (target && !btnRef.current?.contains(target) && !menuRef.current?.contains(target)) {
+        setMoveOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setMoveOpen(false)
+        btnRef.current?.focus()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [moveOpen])
+
+  const allSelected = totalCount > 0 && selectedCount === totalCount
+
+  return (
+    <div className="playlist-bulk-bar" role="toolbar" aria-label="批量操作">
+      <label className="playlist-bulk-bar__count">
+        <input
+          ref={(node) => {
+            if (node) {
+              node.indeterminate = !allSelected && selectedCount > 0
+            }
+          }}
+          type="checkbox"
+          className="track-select"
+          checked={allSelected}
+          onChange={onToggleAll}
+          aria-label={allSelected ? '取消全选' : '全选'}
+        />
+        <span>已选 {selectedCount} 首</span>
+      </label>
+      <div className="song-actions playlist-bulk-bar__actions">
+        <button type="button" className="action-btn" onClick={onPlayNext} aria-label="下一首播放" title="下一首播放">
+          <ListStart aria-hidden="true" size={18} strokeWidth={1.9} />
+        </button>
+        <button type="button" className="action-btn" onClick={onDownload} aria-label="下载" title="下载">
+          <Download aria-hidden="true" size={18} strokeWidth={1.9} />
+        </button>
+        <div className={`source-dd playlist-bulk-bar__move${moveOpen ? ' is-open' : ''}`}>
+          <button
+            ref={btnRef}
+            type="button"
+            className="action-btn"
+            onClick={() => setMoveOpen((prev) => !prev)}
+            disabled={!moveTargets.length}
+            aria-expanded={moveOpen}
+            aria-haspopup="menu"
+            aria-label="移动到其他播放列表"
+            title={moveTargets.length ? '移动到其他播放列表' : '没有其他播放列表'}
+          >
+            <FolderInput aria-hidden="true" size={18} strokeWidth={1.9} />
+          </button>
+          {moveOpen && (
+            <div ref={menuRef} className="source-dd__menu playlist-switcher__menu" role="menu">
+              {moveTargets.map((playlist) => (
+                <button
+                  key={playlist.id}
+                  type="button"
+                  className="source-dd__item playlist-switcher__item"
+                  role="menuitem"
+                  onClick={() => {
+                    setMoveOpen(false)
+                    onMove(playlist.id)
+                  }}
+                >
+                  <span className="playlist-switcher__item-name">{playlist.name}</span>
+                  <span className="playlist-switcher__item-count">{playlist.count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button type="button" className="action-btn" onClick={onExport} aria-label="导出所选" title="导出所选">
+          <FileDown aria-hidden="true" size={18} strokeWidth={1.9} />
+        </button>
+        <button
+          type="button"
+          className="action-btn delete-action"
+          onClick={onRemove}
+          aria-label="移除所选"
+          title="移除所选"
+        >
+          <Trash2 aria-hidden="true" size={18} strokeWidth={1.9} />
+        </button>
+        <button type="button" className="action-btn" onClick={onClear} aria-label="取消选择" title="取消选择">
+          <X aria-hidden="true" size={18} strokeWidth={1.9} />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react'
+import { Check, Copy, PencilLine, Plus, Trash2 } from 'lucide-react'
+
+export interface PlaylistSummary {
+  id: string
+  name: string
+  count: number
+}
+
+interface PlaylistSwitcherProps {
+  playlists: PlaylistSummary[]
+  activeId: string
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: () => void
+  onDuplicate: () => void
+  onDelete: () => void
+}
+
+export default function PlaylistSwitcher({
+  playlists,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: PlaylistSwitcherProps) {
+  const [open, setOpen] = useState(false)
+  const btnRef = useRef<HTMLButtonElement | null>(null)
+  const menuRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null
+      if (target && !btnRef.current?.contains(target) && !menuRef.current?.contains(target)) {
+        setOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+        btnRef.current?.focus()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  const active = playlists.find((playlist) => playlist.id === activeId)
+
+  // Each action closes the menu first, since most of them open a prompt or confirm dialog.
+  const runAction = (action: () => void) => {
+    setOpen(false)
+    action()
+  }
+
+  return (
+    <div className={`source-dd playlist-switcher${open ? ' is-open' : ''}`}>
+      <button
+        ref={btnRef}
+        type="button"
+        className="playlist-switcher__trigger"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        title="切换播放列表"
+      >
+        <span className="playlist-switcher__name">{active?.name ?? '播放列表'}</span>
+        <span className="playlist-switcher__count">（共 {active?.count ?? 0} 首）</span>
+        <span className="source-dd__caret" aria-hidden="true" />
+      </button>
+      {open && (
+        <div ref={menuRef} className="source-dd__menu playlist-switcher__menu" role="menu" data-align="left">
+          {playlists.map((playlist) => (
+            <button
+              key={playlist.id}
+              type="button"
+              className={`source-dd__item playlist-switcher__item${playlist.id === activeId ? ' is-active' : ''}`}
+              role="menuitemradio"
+              aria-checked={playlist.id === activeId}
+              onClick={() =>
+                runAction(() => {
+                  if (playlist.id !== activeId) {
+                    onSelect(playlist.id)
+                  }
+                })
+              }
+            >
+              <span className="playlist-switcher__item-name">{playlist.name}</span>
+              <span className="playlist-switcher__item-count">{playlist.count}</span>
+              {playlist.id === activeId && <Check aria-hidden="true" size={14} strokeWidth={2.2} />}
+            </button>
+          ))}
+          <div className="lyrics-export__divider" role="separator" />
+          <button
+            type="button"
+            className="source-dd__item playlist-switcher__action"
+            role="menuitem"
+            onClick={() => runAction(onCreate)}
+          >
+            <Plus aria-hidden="true" size={15} strokeWidth={1.9} />
+            <span>新建播放列表</span>
+          </button>
+          <button
+            type="button"
+            className="source-dd__item playlist-switcher__action"
+            role="menuitem"
+            onClick={() => runAction(onRename)}
+          >
+            <PencilLine aria-hidden="true" size={15} strokeWidth={1.9} />
+            <span>重命名</span>
+          </button>
+          <button
+            type="button"
+            className="source-dd__item playlist-switcher__action"
+            role="menuitem"
+            onClick={() => runAction(onDuplicate)}
+          >
+            <Copy aria-hidden="true" size={15} strokeWidth={1.9} />
+            <span>复制</span>
+          </button>
+          <button
+            type="button"
+            className="source-dd__item playlist-switcher__action playlist-switcher__action--danger"
+            role="menuitem"
+            disabled={playlists.length <= 1}
+            onClick={() => runAction(onDelete)}
+          >
+            <Trash2 aria-hidden="true" size={15} strokeWidth={1.9} />
+            <span>删除</span>
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
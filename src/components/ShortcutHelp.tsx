@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react'
+import { X } from 'lucide-react'
+import { KEYBOARD_SHORTCUTS } from '../utils/shortcuts'
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const closeRef = useRef<HTMLButtonElement | null>(null)
+
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null
+    closeRef.current?.focus()
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' || event.key === '?') {
+        event.preventDefault()
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      previousFocus?.focus?.()
+    }
+  }, [onClose])
+
+  return (
+    <div className="shortcut-help" onMouseDown={(event) => event.target === event.currentTarget && onClose()}>
+      <div className="shortcut-help__dialog" role="dialog" aria-modal="true" aria-labelledby="shortcut-help-title">
+        <header className="shortcut-help__header">
+          <h2 id="shortcut-help-title">键盘快捷键</h2>
+          <button ref={closeRef} type="button" className="shortcut-help__close" onClick={onClose} aria-label="关闭">
+            <X aria-hidden="true" size={18} />
+          </button>
+        </header>
+        <dl className="shortcut-help__list">
+          {KEYBOARD_SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.action} className="shortcut-help__row">
+              <dt>
+                {shortcut.display.map((key) => (
+                  <kbd key={key}>{key}</kbd>
+                ))}
+              </dt>
+              <dd>{shortcut.label}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="shortcut-help__hint">在输入框中打字时快捷键不会生效，按 Esc 关闭</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import { useEffect, useId, useRef, useState } from 'react'
+import { Minus, Moon, Plus } from 'lucide-react'
+
+export type SleepTimerSetting =
+  | { kind: 'duration'; endsAt: number }
+  /** Stops when `remaining` more tracks have played to their end; 1 means the current track. */
+  | { kind: 'tracks'; remaining: number }
+
+interface SleepTimerProps {
+  timer: SleepTimerSetting | null
+  onStart: (timer: SleepTimerSetting) => void
+  onCancel: () => void
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90]
+const MAX_TRACK_COUNT = 20
+
+const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`
+}
+
+const getTimerLabel = (timer: SleepTimerSetting, now: number) => {
+  if (timer.kind === 'duration') {
+    return formatCountdown(timer.endsAt - now)
+  }
+  return timer.remaining <= 1 ? '本曲结束' : `剩 ${timer.remaining} 首`
+}
+
+export default function SleepTimer({ timer, onStart, onCancel }: SleepTimerProps) {
+  const [open, setOpen] = useState(false)
+  const [trackCount, setTrackCount] = useState(3)
+  const [now, setNow] = useState(() => Date.now())
+  const btnRef = useRef<HTMLButtonElement | null>(null)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+  const panelId = useId()
+
+  useEffect(() => {
+    if (timer?.kind !== 'duration' || typeof window === 'undefined') {
+      return
+    }
+    setNow(Date.now())
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [timer])
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node | null
+      if (target && !btnRef.current?.contains(target) && !panelRef.current?.contains(target)) {
+        setOpen(false)
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setOpen(false)
+        btnRef.current?.focus()
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  const start = (next: SleepTimerSetting) => {
+    onStart(next)
+    setOpen(false)
+  }
+
+  const label = timer ? getTimerLabel(timer, now) : null
+
+  return (
+    <div className="sleep-timer">
+      <button
+        ref={btnRef}
+        type="button"
+        className={`audio-settings__trigger sleep-timer__trigger${open ? ' is-open' : ''}${timer ? ' is-active' : ''}`}
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        aria-controls={panelId}
+        aria-label={label ? `睡眠定时：${label}` : '睡眠定时'}
+        title="睡眠定时"
+      >
+        <Moon aria-hidden="true" size={18} strokeWidth={1.9} />
+        {label && <span className="sleep-timer__remaining">{label}</span>}
+      </button>
+      {open && (
+        <div
+          ref={panelRef}
+          id={panelId}
+          className="audio-settings__panel sleep-timer__panel"
+          role="dialog"
+          aria-label="睡眠定时"
+        >
+          <section className="audio-settings__section">
+            <h3>定时停止播放</h3>
+            <div className="sleep-timer__options">
+              {DURATION_OPTIONS.map((minutes) => (
+                <button
+                  key={minutes}
+                  type="button"
+                  className="audio-settings__segment"
+                  onClick={() => start({ kind: 'duration', endsAt: Date.now() + minutes * 60 * 1000 })}
+                >
+                  {minutes} 分钟
+                </button>
+              ))}
+            </div>
+          </section>
+          <section className="audio-settings__section">
+            <h3>按歌曲停止</h3>
+            <button
+              type="button"
+              className="audio-settings__segment sleep-timer__wide"
+              onClick={() => start({ kind: 'tracks', remaining: 1 })}
+            >
+              播放完当前歌曲
+            </button>
+            <div className="sleep-timer__tracks">
+              <button
+                type="button"
+                className="sleep-timer__step"
+                onClick={() => setTrackCount((count) => Math.max(2, count - 1))}
+                disabled={trackCount <= 2}
+                aria-label="减少一首"
+              >
+                <Minus aria-hidden="true" size={14} />
+              </button>
+              <output aria-live="polite">{trackCount} 首</output>
+              <button
+                type="button"
+                className="sleep-timer__step"
+                onClick={() => setTrackCount((count) => Math.min(MAX_TRACK_COUNT, count + 1))}
+                disabled={trackCount >= MAX_TRACK_COUNT}
+                aria-label="增加一首"
+              >
+                <Plus aria-hidden="true" size={14} />
+              </button>
+              <button
+                type="button"
+                className="audio-settings__segment"
+                onClick={() => start({ kind: 'tracks', remaining: trackCount })}
+              >
+                播放完后停止
+              </button>
+            </div>
+            <p className="audio-settings__hint">只计算自然播放完的歌曲，停止前音量会逐渐淡出</p>
+          </section>
+          {timer && (
+            <button
+              type="button"
+              className="sleep-timer__cancel"
+              onClick={() => {
+                onCancel()
+                setOpen(false)
+              }}
+            >
+              取消定时（{label}）
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { memo, useEffect, useRef } from 'react'
+import type { BackgroundPalette } from '../utils/palette'
+import { drawVisualizerFrame, type VisualizerStyle } from '../utils/visualizer'
+
+interface VisualizerProps {
+  getAnalyser: () => AnalyserNode | null
+  variant: VisualizerStyle
+  palette: BackgroundPalette
+  /** Frames are only drawn while audio is playing. */
+  isActive: boolean
+  className?: string
+}
+
+const Visualizer = ({ getAnalyser, variant, palette, isActive, className }: VisualizerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const scaleRef = useRef(1)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || typeof window === 'undefined') {
+      return
+    }
+    const resize = () => {
+      const scale = window.devicePixelRatio || 1
+      scaleRef.current = scale
+      canvas.width = Math.max(1, Math.round(canvas.clientWidth * scale))
+      canvas.height = Math.max(1, Math.round(canvas.clientHeight * scale))
+    }
+    resize()
+    if (typeof ResizeObserver === 'undefined') {
+      return
+    }
+    const observer = new ResizeObserver(resize)
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || typeof window === 'undefined') {
+      return
+    }
+    if (!isActive) {
+      context.clearRect(0, 0, canvas.width, canvas.height)
+      return
+    }
+
+    let buffer: Uint8Array<ArrayBuffer> | null = null
+    let frame = 0
+    const render = () => {
+      const analyser = getAnalyser()
+      if (analyser) {
+        if (!buffer || buffer.length < analyser.fftSize) {
+          buffer = new Uint8Array(analyser.fftSize)
+        }
+        drawVisualizerFrame(context, analyser, variant, palette, buffer, scaleRef.current)
+      }
+      frame = window.requestAnimationFrame(render)
+    }
+    frame = window.requestAnimationFrame(render)
+    return () => window.cancelAnimationFrame(frame)
+  }, [getAnalyser, isActive, palette, variant])
+
+  return <canvas ref={canvasRef} className={className} aria-hidden="true" />
+}
+
+export default memo(Visualizer)
@@ -0,0 +1,3 @@
+export const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2]
+
+export const formatPlaybackRate = (rate: number) => `${rate}x`
@@ -0,0 +1,607 @@
+import { createEqualizerChain, DEFAULT_EQUALIZER } from './equalizer'
+import type { EqualizerChain, EqualizerSettings } from './equalizer'
+import {
+  LOUDNESS_BLOCK_STEP_SECONDS,
+  createLimiter,
+  createLoudnessMeter,
+  dbToGain,
+  loudnessToGainDb,
+  setLimiterActive,
+} from './loudness'
+import type { LoudnessMeter } from './loudness'
+
+export type TrackTransitionMode = 'off' | 'crossfade' | 'gapless'
+
+export interface TrackTransitionSettings {
+  mode: TrackTransitionMode
+  /** Length of the overlap used by `crossfade` mode. */
+  crossfadeSeconds: number
+}
+
+export interface AudioEngineHandlers {
+  /** Fired once per track, shortly before the end, so the next URL can be handed to `preload`. */
+  onPreloadDue?: () => void
+  /** Fired when the preloaded track should take over to honour the transition settings. */
+  onTransitionDue?: () => void
+  /** Normalization gain remembered for a track key, in dB. */
+  getCachedGain?: (key: string) => number | undefined
+  /** Reports a measured normalization gain so it can be cached for the track key. */
+  onLoudnessMeasured?: (key: string, gainDb: number) => void
+}
+
+export interface AudioEngineOptions {
+  /**
+   * Rewrites track URLs before they reach a deck. Decks request audio with CORS so
+   * Web Audio may read it; hosts without CORS headers have to be routed through a
+   * proxy here, otherwise the graph would only receive silence.
+   */
+  resolveUrl?: (url: string) => string
+}
+
+export interface AudioEngine {
+  /** Element currently audible; playback listeners and seeking target this one. */
+  readonly element: HTMLAudioElement
+  /**
+   * Routes `url` to the active deck, reusing the standby deck when it already holds it.
+   * `key` identifies the track for loudness caching.
+   */
+  load: (url: string, key?: string) => HTMLAudioElement
+  /** Buffers `url` on the standby deck without playing it. */
+  preload: (url: string, key?: string) => void
+  isPreloaded: (url: string) => boolean
+  /** Starts `url` on the standby deck and hands over with an equal-power fade. */
+  crossfade: (url: string, seconds: number, key?: string) => HTMLAudioElement
+  /**
+   * Moves to `url` using the transition settings. Gapless hand-over only applies
+   * when a track runs out on its own; manual skips fade only in crossfade mode.
+   */
+  advance: (url: string, trigger: 'auto' | 'manual', key?: string) => HTMLAudioElement
+  play: () => Promise<void>
+  /**
+   * Fades the master volume out, pauses and puts the volume back. Resolves to
+   * false when the fade was cancelled before it finished.
+   */
+  fadeOutAndPause: (seconds: number) => Promise<boolean>
+  cancelFade: () => void
+  setVolume: (volume: number) => void
+  /** Tempo for both decks; pitch is preserved so vocals do not shift. */
+  setPlaybackRate: (rate: number) => void
+  setTransition: (settings: TrackTransitionSettings) => void
+  setEqualizer: (settings: EqualizerSettings) => void
+  setNormalization: (enabled: boolean) => void
+  setHandlers: (handlers: AudioEngineHandlers) => void
+  /** Post-equalizer signal ahead of the master volume, for visualizers; null until the graph exists. */
+  getAnalyser: () => AnalyserNode | null
+  /** Re-arms the end-of-track callbacks, e.g. after the upcoming track changed. */
+  rearm: () => void
+  stop: () => void
+  destroy: () => void
+}
+
+export const DEFAULT_TRACK_TRANSITION: TrackTransitionSettings = { mode: 'off', crossfadeSeconds: 6 }
+export const CROSSFADE_MIN_SECONDS = 1
+export const CROSSFADE_MAX_SECONDS = 12
+
+/** How far ahead of the end `onPreloadDue` fires; leaves time to resolve and buffer the next URL. */
+const PRELOAD_LEAD_SECONDS = 30
+/** Gapless hand-over point; long enough to cover `play()` start-up latency. */
+const GAPLESS_HANDOFF_SECONDS = 0.05
+const FADE_CURVE_STEPS = 64
+const ANALYSER_FFT_SIZE = 2048
+/** Delay before the volume comes back after a fade-out pause, so no buffered audio leaks through. */
+const FADE_RESTORE_DELAY_SECONDS = 0.15
+/** Measured audio needed before the running loudness estimate is applied. */
+const NORMALIZATION_APPLY_AFTER_SECONDS = 6
+/** Measured audio needed before an estimate is trusted enough to cache. */
+const NORMALIZATION_REPORT_AFTER_SECONDS = 20
+const NORMALIZATION_REPORT_INTERVAL_SECONDS = 15
+const NORMALIZATION_SMOOTHING_SECONDS = 1.5
+/** The running estimate is re-applied once per this many measured blocks. */
+const NORMALIZATION_UPDATE_BLOCKS = 10
+
+interface AudioDeck {
+  element: HTMLAudioElement
+  url: string | null
+  key: string | null
+  source: MediaElementAudioSourceNode | null
+  gain: GainNode | null
+  normalizer: GainNode | null
+  meter: LoudnessMeter | null
+  /** Gain remembered from an earlier play; measuring is skipped while set. */
+  cachedGainDb: number | null
+  reportedAtSeconds: number
+  releaseTimer: number | null
+}
+
+type AudioContextConstructor = typeof AudioContext
+
+const getAudioContextConstructor = (): AudioContextConstructor | null => {
+  if (typeof window === 'undefined') {
+    return null
+  }
+  const candidate =
+    window.AudioContext ??
+    (window as Window & { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext
+  return candidate ?? null
+}
+
+const createFadeCurve = (from: number, to: number) => {
+  const curve = new Float32Array(FADE_CURVE_STEPS)
+  for (let step = 0; step < FADE_CURVE_STEPS; step += 1) {
+    const progress = step / (FADE_CURVE_STEPS - 1)
+    const weight = to > from ? Math.sin((progress * Math.PI) / 2) : Math.cos((progress * Math.PI) / 2)
+    curve[step] = to > from ? from + (to - from) * weight : to + (from - to) * weight
+  }
+  return curve
+}
+
+const getRemainingSeconds = (element: HTMLAudioElement) => {
+  const { duration, currentTime, playbackRate } = element
+  if (!Number.isFinite(duration) || duration <= 0) {
+    return Number.POSITIVE_INFINITY
+  }
+  return Math.max(0, duration - currentTime) / (playbackRate || 1)
+}
+
+const applyPlaybackRate = (element: HTMLAudioElement, rate: number) => {
+  // A new `src` resets `playbackRate` to `defaultPlaybackRate`, so both carry the rate.
+  element.defaultPlaybackRate = rate
+  element.playbackRate = rate
+  element.preservesPitch = true
+}
+
+const createDeck = (): AudioDeck => {
+  const element = new Audio()
+  element.crossOrigin = 'anonymous'
+  element.preload = 'auto'
+  applyPlaybackRate(element, 1)
+  return {
+    element,
+    url: null,
+    key: null,
+    source: null,
+    gain: null,
+    normalizer: null,
+    meter: null,
+    cachedGainDb: null,
+    reportedAtSeconds: 0,
+    releaseTimer: null,
+  }
+}
+
+const clearDeck = (deck: AudioDeck) => {
+  if (deck.releaseTimer !== null) {
+    window.clearTimeout(deck.releaseTimer)
+    deck.releaseTimer = null
+  }
+  deck.element.pause()
+  deck.element.removeAttribute('src')
+  deck.element.load()
+  deck.url = null
+  deck.key = null
+}
+
+/**
+ * Two-deck player on top of the Web Audio API. Each deck is a long-lived
+ * `HTMLAudioElement` routed through its own gain node, so the next track can be
+ * buffered on the idle deck and faded in while the current one fades out. Both
+ * decks then share the equalizer, a limiter and the master volume; a per-deck
+ * normalizer applies the measured or cached loudness gain. The `AudioContext` is
+ * created lazily on the first `play()` so it starts inside a user gesture.
+ */
+export const createAudioEngine = ({ resolveUrl = (url) => url }: AudioEngineOptions = {}): AudioEngine => {
+  const decks: [AudioDeck, AudioDeck] = [createDeck(), createDeck()]
+  let activeIndex = 0
+  let context: AudioContext | null = null
+  let master: GainNode | null = null
+  let equalizerChain: EqualizerChain | null = null
+  let equalizer = DEFAULT_EQUALIZER
+  let limiter: DynamicsCompressorNode | null = null
+  let analyser: AnalyserNode | null = null
+  let normalizationEnabled = false
+  let meterInterval: number | null = null
+  let volume = 1
+  let transition = DEFAULT_TRACK_TRANSITION
+  let handlers: AudioEngineHandlers = {}
+  let preloadRequested = false
+  let transitionRequested = false
+  let transitionTimer: number | null = null
+  let fade: { timer: number; resolve: (paused: boolean) => void } | null = null
+
+  const active = () => decks[activeIndex]
+  const standby = () => decks[1 - activeIndex]
+
+  const ensureGraph = () => {
+    if (context) {
+      return context
+    }
+    const Context = getAudioContextConstructor()
+    if (!Context) {
+      return null
+    }
+    try {
+      context = new Context()
+      master = context.createGain()
+      master.gain.value = volume
+      master.connect(context.destination)
+      limiter = createLimiter(context)
+      setLimiterActive(limiter, normalizationEnabled)
+      analyser = context.createAnalyser()
+      analyser.fftSize = ANALYSER_FFT_SIZE
+      limiter.connect(analyser)
+      analyser.connect(master)
+      equalizerChain = createEqualizerChain(context)
+      equalizerChain.output.connect(limiter)
+      equalizerChain.apply(equalizer)
+      decks.forEach((deck, index) => {
+        deck.source = context!.createMediaElementSource(deck.element)
+        deck.gain = context!.createGain()
+        deck.gain.gain.value = index === activeIndex ? 1 : 0
+        deck.normalizer = context!.createGain()
+        deck.meter = createLoudnessMeter(context!, deck.source)
+        deck.source.connect(deck.gain)
+        deck.gain.connect(deck.normalizer)
+        deck.normalizer.connect(equalizerChain!.input)
+        deck.element.volume = 1
+        prepareLoudness(deck)
+      })
+      meterInterval = window.setInterval(measureLoudness, LOUDNESS_BLOCK_STEP_SECONDS * 1000)
+    } catch (error) {
+      console.warn('Web Audio unavailable, falling back to plain media elements', error)
+      context = null
+      master = null
+      equalizerChain = null
+      limiter = null
+      analyser = null
+    }
+    return context
+  }
+
+  const applyNormalization = (deck: AudioDeck, smoothingSeconds: number) => {
+    if (!deck.normalizer || !context) {
+      return
+    }
+    let gainDb = 0
+    if (normalizationEnabled) {
+      if (deck.cachedGainDb !== null) {
+        gainDb = deck.cachedGainDb
+      } else if (deck.meter && deck.meter.measuredSeconds() >= NORMALIZATION_APPLY_AFTER_SECONDS) {
+        const loudness = deck.meter.integratedLoudness()
+        gainDb = loudness === null ? 0 : loudnessToGainDb(loudness)
+      }
+    }
+    const now = context.currentTime
+    deck.normalizer.gain.cancelScheduledValues(now)
+    if (smoothingSeconds > 0) {
+      deck.normalizer.gain.setTargetAtTime(dbToGain(gainDb), now, smoothingSeconds)
+    } else {
+      deck.normalizer.gain.value = dbToGain(gainDb)
+    }
+  }
+
+  // Called whenever a deck receives a new track, before it becomes audible.
+  const prepareLoudness = (deck: AudioDeck) => {
+    deck.meter?.reset()
+    deck.reportedAtSeconds = 0
+    deck.cachedGainDb = deck.key ? handlers.getCachedGain?.(deck.key) ?? null : null
+    applyNormalization(deck, 0)
+  }
+
+  const measureLoudness = () => {
+    const deck = decks[activeIndex]
+    if (!normalizationEnabled || !deck.meter || !deck.key || deck.cachedGainDb !== null || deck.element.paused) {
+      return
+    }
+    deck.meter.sample()
+    const measured = deck.meter.measuredSeconds()
+    if (Math.round(measured / LOUDNESS_BLOCK_STEP_SECONDS) % NORMALIZATION_UPDATE_BLOCKS === 0) {
+      applyNormalization(deck, NORMALIZATION_SMOOTHING_SECONDS)
+    }
+    if (
+      measured >= NORMALIZATION_REPORT_AFTER_SECONDS &&
+      measured - deck.reportedAtSeconds >= NORMALIZATION_REPORT_INTERVAL_SECONDS
+    ) {
+      const loudness = deck.meter.integratedLoudness()
+      if (loudness !== null) {
+        deck.reportedAtSeconds = measured
+        handlers.onLoudnessMeasured?.(deck.key, loudnessToGainDb(loudness))
+      }
+    }
+  }
+
+  const applyVolume = () => {
+    if (master) {
+      // A running fade-out owns the master gain; the new volume is restored once it ends.
+      if (!fade) {
+        master.gain.value = volume
+      }
+      return
+    }
+    decks.forEach((deck, index) => {
+      deck.element.volume = index === activeIndex ? volume : 0
+    })
+  }
+
+  const setDeckLevel = (deck: AudioDeck, level: number) => {
+    if (!deck.gain || !context) {
+      return
+    }
+    deck.gain.gain.cancelScheduledValues(context.currentTime)
+    deck.gain.gain.value = level
+  }
+
+  const leadSeconds = () =>
+    transition.mode === 'crossfade' ? transition.crossfadeSeconds : GAPLESS_HANDOFF_SECONDS
+
+  const clearTransitionTimer = () => {
+    if (transitionTimer !== null) {
+      window.clearTimeout(transitionTimer)
+      transitionTimer = null
+    }
+  }
+
+  const rearm = () => {
+    clearTransitionTimer()
+    preloadRequested = false
+    transitionRequested = false
+  }
+
+  const requestTransition = () => {
+    transitionTimer = null
+    const element = active().element
+    if (transitionRequested || element.paused || transition.mode === 'off') {
+      return
+    }
+    transitionRequested = true
+    handlers.onTransitionDue?.()
+  }
+
+  const evaluateSchedule = (deck: AudioDeck) => {
+    if (deck !== active() || deck.element.paused) {
+      return
+    }
+    const remaining = getRemainingSeconds(deck.element)
+    if (!Number.isFinite(remaining)) {
+      return
+    }
+    const lead = transition.mode === 'off' ? 0 : leadSeconds()
+
+    if (!preloadRequested && remaining <= lead + PRELOAD_LEAD_SECONDS) {
+      preloadRequested = true
+      handlers.onPreloadDue?.()
+    }
+
+    // `timeupdate` only fires every ~250ms, so the hand-over itself runs on a timer.
+    if (transition.mode !== 'off' && !transitionRequested && transitionTimer === null && remaining <= lead + 1) {
+      transitionTimer = window.setTimeout(requestTransition, Math.max(0, (remaining - lead) * 1000))
+    }
+  }
+
+  const handleSeeking = (deck: AudioDeck) => {
+    if (deck !== active()) {
+      return
+    }
+    clearTransitionTimer()
+    if (getRemainingSeconds(deck.element) > leadSeconds()) {
+      transitionRequested = false
+    }
+  }
+
+  decks.forEach((deck) => {
+    deck.element.addEventListener('timeupdate', () => evaluateSchedule(deck))
+    deck.element.addEventListener('seeking', () => handleSeeking(deck))
+    deck.element.addEventListener('pause', () => {
+      if (deck === active()) {
+        clearTransitionTimer()
+      }
+    })
+  })
+
+  const activate = (index: number) => {
+    activeIndex = index
+    rearm()
+    applyVolume()
+  }
+
+  const load = (url: string, key?: string) => {
+    const next = standby()
+    if (next.url === url) {
+      setDeckLevel(next, 1)
+      clearDeck(active())
+      activate(1 - activeIndex)
+      return next.element
+    }
+    clearDeck(next)
+    const deck = active()
+    if (deck.releaseTimer !== null) {
+      window.clearTimeout(deck.releaseTimer)
+      deck.releaseTimer = null
+    }
+    setDeckLevel(deck, 1)
+    deck.url = url
+    deck.key = key ?? null
+    deck.element.src = url
+    prepareLoudness(deck)
+    rearm()
+    applyVolume()
+    return deck.element
+  }
+
+  const preload = (url: string, key?: string) => {
+    const deck = standby()
+    if (deck.url === url) {
+      return
+    }
+    clearDeck(deck)
+    deck.url = url
+    deck.key = key ?? null
+    deck.element.src = url
+    deck.element.load()
+    prepareLoudness(deck)
+  }
+
+  const crossfade = (url: string, seconds: number, key?: string) => {
+    const ctx = ensureGraph()
+    const outgoing = active()
+    const incoming = standby()
+    const fadeSeconds = Math.min(seconds, getRemainingSeconds(outgoing.element))
+
+    if (!ctx || !outgoing.gain || !incoming.gain || fadeSeconds <= 0 || outgoing.element.paused) {
+      return load(url, key)
+    }
+    if (ctx.state === 'suspended') {
+      ctx.resume().catch(() => undefined)
+    }
+
+    if (incoming.url !== url) {
+      clearDeck(incoming)
+      incoming.url = url
+      incoming.key = key ?? null
+      incoming.element.src = url
+      prepareLoudness(incoming)
+    } else if (incoming.releaseTimer !== null) {
+      window.clearTimeout(incoming.releaseTimer)
+      incoming.releaseTimer = null
+    }
+    incoming.element.currentTime = 0
+
+    const now = ctx.currentTime
+    const outgoingLevel = outgoing.gain.gain.value
+    outgoing.gain.gain.cancelScheduledValues(now)
+    outgoing.gain.gain.setValueCurveAtTime(createFadeCurve(outgoingLevel, 0), now, fadeSeconds)
+    incoming.gain.gain.cancelScheduledValues(now)
+    incoming.gain.gain.setValueCurveAtTime(createFadeCurve(0, 1), now, fadeSeconds)
+
+    outgoing.releaseTimer = window.setTimeout(() => {
+      outgoing.releaseTimer = null
+      clearDeck(outgoing)
+    }, fadeSeconds * 1000 + 50)
+
+    activate(1 - activeIndex)
+    return incoming.element
+  }
+
+  const advance = (url: string, trigger: 'auto' | 'manual', key?: string) => {
+    if (transition.mode === 'crossfade') {
+      return crossfade(url, transition.crossfadeSeconds, key)
+    }
+    if (transition.mode === 'gapless' && trigger === 'auto') {
+      return crossfade(url, GAPLESS_HANDOFF_SECONDS, key)
+    }
+    return load(url, key)
+  }
+
+  const finishFade = (paused: boolean) => {
+    if (!fade) {
+      return
+    }
+    window.clearTimeout(fade.timer)
+    const { resolve } = fade
+    fade = null
+    if (master && context) {
+      const now = context.currentTime
+      master.gain.cancelScheduledValues(now)
+      if (paused) {
+        master.gain.setValueAtTime(0, now)
+        master.gain.setValueAtTime(volume, now + FADE_RESTORE_DELAY_SECONDS)
+      } else {
+        master.gain.setTargetAtTime(volume, now, FADE_RESTORE_DELAY_SECONDS)
+      }
+    }
+    resolve(paused)
+  }
+
+  const fadeOutAndPause = (seconds: number) => {
+    finishFade(false)
+    const element = active().element
+    if (!master || !context || element.paused || seconds <= 0) {
+      element.pause()
+      return Promise.resolve(true)
+    }
+    const now = context.currentTime
+    master.gain.cancelScheduledValues(now)
+    master.gain.setValueCurveAtTime(createFadeCurve(master.gain.value, 0), now, seconds)
+    return new Promise<boolean>((resolve) => {
+      fade = {
+        resolve,
+        timer: window.setTimeout(() => {
+          active().element.pause()
+          finishFade(true)
+        }, seconds * 1000),
+      }
+    })
+  }
+
+  const play = async () => {
+    const ctx = ensureGraph()
+    if (ctx && ctx.state === 'suspended') {
+      await ctx.resume().catch(() => undefined)
+    }
+    await active().element.play()
+  }
+
+  return {
+    get element() {
+      return active().element
+    },
+    load: (url, key) => load(resolveUrl(url), key),
+    preload: (url, key) => preload(resolveUrl(url), key),
+    isPreloaded: (url) => standby().url === resolveUrl(url),
+    crossfade: (url, seconds, key) => crossfade(resolveUrl(url), seconds, key),
+    advance: (url, trigger, key) => advance(resolveUrl(url), trigger, key),
+    play,
+    fadeOutAndPause,
+    cancelFade: () => finishFade(false),
+    setVolume: (value) => {
+      volume = Math.min(Math.max(value, 0), 1)
+      applyVolume()
+    },
+    setPlaybackRate: (rate) => {
+      decks.forEach((deck) => applyPlaybackRate(deck.element, rate))
+      // The hand-over timer was scheduled in wall-clock time for the old rate.
+      clearTransitionTimer()
+    },
+    setTransition: (settings) => {
+      transition = settings
+      rearm()
+    },
+    setEqualizer: (settings) => {
+      equalizer = settings
+      equalizerChain?.apply(settings)
+    },
+    setNormalization: (enabled) => {
+      normalizationEnabled = enabled
+      if (limiter) {
+        setLimiterActive(limiter, enabled)
+      }
+      decks.forEach((deck) => applyNormalization(deck, 0.3))
+    },
+    setHandlers: (next) => {
+      handlers = next
+    },
+    getAnalyser: () => analyser,
+    rearm,
+    stop: () => {
+      finishFade(false)
+      rearm()
+      decks.forEach(clearDeck)
+      decks.forEach((deck, index) => setDeckLevel(deck, index === activeIndex ? 1 : 0))
+    },
+    destroy: () => {
+      finishFade(false)
+      rearm()
+      decks.forEach(clearDeck)
+      if (meterInterval !== null) {
+        window.clearInterval(meterInterval)
+        meterInterval = null
+      }
+      context?.close().catch(() => undefined)
+      context = null
+      master = null
+      equalizerChain = null
+      limiter = null
+      analyser = null
+    },
+  }
+}
+
@@ -4,6 +4,40 @@ const SAMPLE_SIZE = 40
 
 type RGB = [number, number, number]
 
+export interface BackgroundColors {
+  base: RGB
+  highlight: RGB
+  shadow: RGB
+}
+
+export const DEFAULT_BACKGROUND_COLORS: BackgroundColors = {
+  base: [118, 96, 255],
+  highlight: [180, 150, 255],
+  shadow: [20, 18, 42],
+}
+
+/** Animated backgrounds are drawn tiny and blurred by CSS; this is the canvas width. */
+export const MESH_BACKGROUND_RESOLUTION = 160
+const MESH_PULSE_STRENGTH = 0.14
+
+interface MeshBlob {
+  tone: 'highlight' | 'base' | 'accent' | 'glow'
+  x: number
+  y: number
+  orbit: number
+  speed: number
+  phase: number
+  radius: number
+  alpha: number
+}
+
+const MESH_BLOBS: MeshBlob[] = [
+  { tone: 'highlight', x: 0.28, y: 0.26, orbit: 0.16, speed: 0.11, phase: 0, radius: 0.62, alpha: 0.85 },
+  { tone: 'base', x: 0.72, y: 0.3, orbit: 0.14, speed: 0.08, phase: 1.7, radius: 0.7, alpha: 0.8 },
+  { tone: 'accent', x: 0.5, y: 0.72, orbit: 0.18, speed: 0.06, phase: 3.1, radius: 0.66, alpha: 0.75 },
+  { tone: 'glow', x: 0.18, y: 0.78, orbit: 0.12, speed: 0.09, phase: 4.4, radius: 0.5, alpha: 0.6 },
+]
+
 const clamp = (value: number, min = 0, max = 255) => Math.min(max, Math.max(min, value))
 
 const mix = (a: RGB, b: RGB, amount: number): RGB => [
@@ -30,16 +64,12 @@ const loadImage = (url: string): Promise<HTMLImageElement> =>
     image.src = url
   })
 
-const extractDominantColors = (image: HTMLImageElement): { base: RGB; highlight: RGB; shadow: RGB } => {
+const extractDominantColors = (image: HTMLImageElement): BackgroundColors => {
   const canvas = document.createElement('canvas')
   const context = canvas.getContext('2d', { willReadFrequently: true })
 
   if (!context) {
-    return {
-      base: [118, 96, 255],
-      highlight: [180, 150, 255],
-      shadow: [20, 18, 42],
-    }
+    return DEFAULT_BACKGROUND_COLORS
   }
 
   canvas.width = SAMPLE_SIZE
@@ -85,11 +115,7 @@ const extractDominantColors = (image: HTMLImageElement): { base: RGB; highlight:
   }
 
   if (!totalWeight) {
-    return {
-      base: [118, 96, 255],
-      highlight: [180, 150, 255],
-      shadow: [20, 18, 42],
-    }
+    return DEFAULT_BACKGROUND_COLORS
   }
 
   const averageBase: RGB = [base[0] / totalWeight, base[1] / totalWeight, base[2] / totalWeight]
@@ -109,11 +135,15 @@ const extractDominantColors = (image: HTMLImageElement): { base: RGB; highlight:
   }
 }
 
-export const generateAppleMusicStyleBackground = async (url: string): Promise<string> => {
+/** Base, highlight and shadow colors of the artwork, the inputs of both background modes. */
+export const extractBackgroundColors = async (url: string): Promise<BackgroundColors> => {
   const image = await loadImage(url)
   await image.decode?.()
+  return extractDominantColors(image)
+}
 
-  const { base, highlight, shadow } = extractDominantColors(image)
+export const generateAppleMusicStyleBackground = async (url: string): Promise<string> => {
+  const { base, highlight, shadow } = await extractBackgroundColors(url)
 
   const canvas = document.createElement('canvas')
   const context = canvas.getContext('2d')
@@ -192,4 +222,51 @@ export const generateAppleMusicStyleBackground = async (url: string): Promise<st
   return canvas.toDataURL('image/jpeg', 0.9)
 }
 
+export const blendBackgroundColors = (
+  from: BackgroundColors,
+  to: BackgroundColors,
+  amount: number,
+): BackgroundColors => ({
+  base: mix(from.base, to.base, amount),
+  highlight: mix(from.highlight, to.highlight, amount),
+  shadow: mix(from.shadow, to.shadow, amount),
+})
+
+/**
+ * One frame of the animated background: a few large radial blobs drifting on slow
+ * orbits over the shadow color, which together read as a morphing mesh gradient.
+ * `energy` (0–1) swells the blobs so the backdrop breathes with the bass.
+ */
+export const drawMeshBackgroundFrame = (
+  context: CanvasRenderingContext2D,
+  colors: BackgroundColors,
+  seconds: number,
+  energy: number,
+) => {
+  const { width, height } = context.canvas
+  const tones: Record<MeshBlob['tone'], RGB> = {
+    highlight: lighten(colors.highlight, 0.1),
+    base: colors.base,
+    accent: mix(colors.highlight, colors.base, 0.4),
+    glow: lighten(colors.base, 0.25),
+  }
+  const size = Math.max(width, height)
+  const pulse = 1 + energy * MESH_PULSE_STRENGTH
+
+  context.fillStyle = toColorString(darken(colors.shadow, 0.2))
+  context.fillRect(0, 0, width, height)
+
+  MESH_BLOBS.forEach((blob) => {
+    const angle = seconds * blob.speed + blob.phase
+    const x = (blob.x + Math.sin(angle) * blob.orbit) * width
+    const y = (blob.y + Math.cos(angle * 0.8) * blob.orbit) * height
+    const radius = size * blob.radius * pulse
+    const gradient = context.createRadialGradient(x, y, 0, x, y, radius)
+    gradient.addColorStop(0, toColorString(tones[blob.tone], Math.min(1, blob.alpha + energy * 0.1)))
+    gradient.addColorStop(1, toColorString(tones[blob.tone], 0))
+    context.fillStyle = gradient
+    context.fillRect(0, 0, width, height)
+  })
+}
+
 export default generateAppleMusicStyleBackground
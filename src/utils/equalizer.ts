@@ -0,0 +1,125 @@
+import { dbToGain } from './loudness'
+
+export interface EqualizerPreset {
+  id: string
+  name: string
+  /** Decibels per band, in `EQ_BANDS` order. */
+  gains: number[]
+  preamp: number
+}
+
+export interface EqualizerSettings {
+  enabled: boolean
+  /** Decibels applied before the filters. */
+  preamp: number
+  gains: number[]
+  /** Preset the gains came from; `custom` once a band has been moved by hand. */
+  presetId: string
+}
+
+export interface EqualizerChain {
+  input: AudioNode
+  output: AudioNode
+  apply: (settings: EqualizerSettings) => void
+}
+
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000]
+export const EQ_GAIN_LIMIT = 12
+export const CUSTOM_EQ_PRESET_ID = 'custom'
+
+const FLAT_GAINS = EQ_BANDS.map(() => 0)
+const PEAKING_Q = 1.41
+const PARAM_SMOOTHING_SECONDS = 0.02
+
+export const BUILT_IN_EQ_PRESETS: EqualizerPreset[] = [
+  { id: 'flat', name: '平直', gains: FLAT_GAINS, preamp: 0 },
+  { id: 'bass-boost', name: '低音增强', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0], preamp: -4 },
+  { id: 'vocal', name: '人声', gains: [-2, -1, 0, 2, 4, 4, 3, 1, 0, -1], preamp: -3 },
+  { id: 'classical', name: '古典', gains: [4, 3, 2, 0, -1, -1, 0, 2, 3, 4], preamp: -3 },
+]
+
+export const DEFAULT_EQUALIZER: EqualizerSettings = {
+  enabled: false,
+  preamp: 0,
+  gains: FLAT_GAINS,
+  presetId: 'flat',
+}
+
+const clampGain = (value: unknown) => {
+  const numeric = Number(value)
+  return Number.isFinite(numeric) ? Math.min(Math.max(numeric, -EQ_GAIN_LIMIT), EQ_GAIN_LIMIT) : 0
+}
+
+const sanitizeGains = (raw: unknown) =>
+  Array.isArray(raw) && raw.length === EQ_BANDS.length ? raw.map(clampGain) : null
+
+export const sanitizeEqualizerSettings = (raw: unknown): EqualizerSettings | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null
+  }
+  const record = raw as Record<string, unknown>
+  const gains = sanitizeGains(record.gains)
+  if (!gains) {
+    return null
+  }
+  return {
+    enabled: record.enabled === true,
+    preamp: clampGain(record.preamp),
+    gains,
+    presetId: typeof record.presetId === 'string' ? record.presetId : CUSTOM_EQ_PRESET_ID,
+  }
+}
+
+export const sanitizeEqualizerPresets = (raw: unknown): EqualizerPreset[] => {
+  if (!Array.isArray(raw)) {
+    return []
+  }
+  return raw
+    .map((preset) => {
+      if (!preset || typeof preset !== 'object') {
+        return null
+      }
+      const record = preset as Record<string, unknown>
+      const gains = sanitizeGains(record.gains)
+      const name = typeof record.name === 'string' ? record.name.trim() : ''
+      if (!gains || !name || typeof record.id !== 'string') {
+        return null
+      }
+      return { id: record.id, name, gains, preamp: clampGain(record.preamp) }
+    })
+    .filter((preset): preset is EqualizerPreset => preset !== null)
+}
+
+/**
+ * Preamp followed by a low shelf, eight peaking filters and a high shelf. A
+ * disabled equalizer stays in the graph with every stage at unity gain, so
+ * toggling it never has to re-patch the audio graph.
+ */
+export const createEqualizerChain = (context: BaseAudioContext): EqualizerChain => {
+  const preamp = context.createGain()
+  const filters = EQ_BANDS.map((frequency, index) => {
+    const filter = context.createBiquadFilter()
+    filter.type = index === 0 ? 'lowshelf' : index === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking'
+    filter.frequency.value = frequency
+    if (filter.type === 'peaking') {
+      filter.Q.value = PEAKING_Q
+    }
+    filter.gain.value = 0
+    return filter
+  })
+
+  filters.reduce<AudioNode>((previous, filter) => previous.connect(filter), preamp)
+
+  return {
+    input: preamp,
+    output: filters[filters.length - 1],
+    apply: (settings) => {
+      const now = context.currentTime
+      const active = settings.enabled
+      preamp.gain.setTargetAtTime(active ? dbToGain(settings.preamp) : 1, now, PARAM_SMOOTHING_SECONDS)
+      filters.forEach((filter, index) => {
+        filter.gain.setTargetAtTime(active ? settings.gains[index] ?? 0 : 0, now, PARAM_SMOOTHING_SECONDS)
+      })
+    },
+  }
+}
@@ -0,0 +1,106 @@
+export interface LoudnessMeter {
+  /** Captures the latest 400 ms block; call every `LOUDNESS_BLOCK_STEP_SECONDS` while audio plays. */
+  sample: () => void
+  reset: () => void
+  /** Seconds of playback covered by the collected blocks. */
+  measuredSeconds: () => number
+  /** Gated integrated loudness in LUFS, or null while nothing audible has been measured. */
+  integratedLoudness: () => number | null
+}
+
+export const LOUDNESS_TARGET_LUFS = -14
+export const LOUDNESS_BLOCK_STEP_SECONDS = 0.1
+
+const BLOCK_SECONDS = 0.4
+const ANALYSER_SIZE = 32768
+const ABSOLUTE_GATE_LUFS = -70
+const RELATIVE_GATE_LU = 10
+const MAX_GAIN_DB = 12
+
+const powerToLoudness = (power: number) => -0.691 + 10 * Math.log10(power)
+
+const meanPower = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length
+
+/**
+ * Progressive ITU-R BS.1770 meter: K-weights the signal, collects overlapping
+ * 400 ms blocks from one analyser per channel and applies the absolute and
+ * relative gates. The analysers feed a muted sink so the browser keeps pulling
+ * them without adding anything to the output.
+ */
+export const createLoudnessMeter = (context: BaseAudioContext, input: AudioNode): LoudnessMeter => {
+  const shelf = context.createBiquadFilter()
+  shelf.type = 'highshelf'
+  shelf.frequency.value = 1681
+  shelf.gain.value = 4
+  const highpass = context.createBiquadFilter()
+  highpass.type = 'highpass'
+  highpass.frequency.value = 38
+  highpass.Q.value = 0.5
+  const splitter = context.createChannelSplitter(2)
+  const sink = context.createGain()
+  sink.gain.value = 0
+  sink.connect(context.destination)
+
+  const analysers = [0, 1].map((channel) => {
+    const analyser = context.createAnalyser()
+    analyser.fftSize = ANALYSER_SIZE
+    splitter.connect(analyser, channel)
+    analyser.connect(sink)
+    return analyser
+  })
+
+  input.connect(shelf)
+  shelf.connect(highpass)
+  highpass.connect(splitter)
+
+  const blockLength = Math.min(ANALYSER_SIZE, Math.round(context.sampleRate * BLOCK_SECONDS))
+  const buffer = new Float32Array(ANALYSER_SIZE)
+  let blocks: number[] = []
+
+  return {
+    sample: () => {
+      let power = 0
+      analysers.forEach((analyser) => {
+        analyser.getFloatTimeDomainData(buffer)
+        let sum = 0
+        for (let index = ANALYSER_SIZE - blockLength; index < ANALYSER_SIZE; index += 1) {
+          sum += buffer[index] * buffer[index]
+        }
+        power += sum / blockLength
+      })
+      blocks.push(power)
+    },
+    reset: () => {
+      blocks = []
+    },
+    measuredSeconds: () => blocks.length * LOUDNESS_BLOCK_STEP_SECONDS,
+    integratedLoudness: () => {
+      const audible = blocks.filter((power) => power > 0 && powerToLoudness(power) > ABSOLUTE_GATE_LUFS)
+      if (!audible.length) {
+        return null
+      }
+      const relativeGate = powerToLoudness(meanPower(audible)) - RELATIVE_GATE_LU
+      const gated = audible.filter((power) => powerToLoudness(power) > relativeGate)
+      return powerToLoudness(meanPower(gated))
+    },
+  }
+}
+
+export const loudnessToGainDb = (loudness: number) =>
+  Math.min(Math.max(LOUDNESS_TARGET_LUFS - loudness, -MAX_GAIN_DB), MAX_GAIN_DB)
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+/** Brick-wall style compressor that keeps boosted tracks from clipping. */
+export const createLimiter = (context: BaseAudioContext) => {
+  const limiter = context.createDynamicsCompressor()
+  limiter.knee.value = 0
+  limiter.attack.value = 0.003
+  limiter.release.value = 0.25
+  return limiter
+}
+
+export const setLimiterActive = (limiter: DynamicsCompressorNode, active: boolean) => {
+  limiter.threshold.value = active ? -1 : 0
+  limiter.ratio.value = active ? 20 : 1
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { getLyricTimeline, type ParsedLyricLine } from './lyrics'
+
+const line = (time: number, text = `line at ${time}`): ParsedLyricLine => ({ time, text })
+
+describe('getLyricTimeline', () => {
+  const lines = [line(5), line(10), line(20)]
+
+  it('keeps the first line active before it starts', () => {
+    expect(getLyricTimeline(lines).locate(0)).toEqual({
+      index: 0,
+      start: Number.NEGATIVE_INFINITY,
+      end: 10,
+    })
+    expect(getLyricTimeline(lines).locate(-3).index).toBe(0)
+  })
+
+  it('switches to a line exactly on its timestamp', () => {
+    const timeline = getLyricTimeline(lines)
+    expect(timeline.locate(10)).toEqual({ index: 1, start: 10, end: 20 })
+    expect(timeline.locate(20)).toEqual({ index: 2, start: 20, end: Number.POSITIVE_INFINITY })
+    expect(timeline.locate(9.999).index).toBe(0)
+  })
+
+  it('returns the earlier line between two timestamps', () => {
+    expect(getLyricTimeline(lines).locate(15)).toEqual({ index: 1, start: 10, end: 20 })
+  })
+
+  it('holds the last line after it starts', () => {
+    expect(getLyricTimeline(lines).locate(3600)).toEqual({
+      index: 2,
+      start: 20,
+      end: Number.POSITIVE_INFINITY,
+    })
+  })
+
+  it('answers seeks backwards after a cached lookup', () => {
+    const timeline = getLyricTimeline(lines)
+    expect(timeline.locate(25).index).toBe(2)
+    expect(timeline.locate(6).index).toBe(0)
+  })
+
+  it('covers all time with line 0 when there are no lines', () => {
+    expect(getLyricTimeline([]).locate(42)).toEqual({
+      index: 0,
+      start: Number.NEGATIVE_INFINITY,
+      end: Number.POSITIVE_INFINITY,
+    })
+  })
+
+  it('reuses the timeline for the same array and rebuilds it for a new one', () => {
+    const timeline = getLyricTimeline(lines)
+    expect(getLyricTimeline(lines)).toBe(timeline)
+
+    const edited = [...lines, line(30)]
+    const rebuilt = getLyricTimeline(edited)
+    expect(rebuilt).not.toBe(timeline)
+    expect(rebuilt.locate(35).index).toBe(3)
+  })
+})
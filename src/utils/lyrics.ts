@@ -1,23 +1,157 @@
+export interface LyricWord {
+  time: number
+  endTime: number
+  text: string
+}
+
+export interface LyricBackgroundVocal {
+  text: string
+  words?: LyricWord[]
+}
+
 export interface ParsedLyricLine {
   time: number
   text: string
+  words?: LyricWord[]
+  /** Singer identifier from duet markup, e.g. TTML `ttm:agent` or a WebVTT voice. */
+  agent?: string
+  background?: LyricBackgroundVocal
 }
 
 export interface LyricLine extends ParsedLyricLine {
   translation?: string
+  romanization?: string
+}
+
+export type LyricFormat = 'lrc' | 'ttml' | 'vtt'
+
+export interface LyricMetadata {
+  title?: string
+  artist?: string
+  album?: string
+  author?: string
+  creator?: string
+  /** Milliseconds; positive values make the lyrics appear earlier. */
+  offset: number
 }
 
 const TIMESTAMP_REGEX = /\[(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?\]/g
+const ID_TAG_REGEX = /^\[([a-zA-Z]+)\s*:(.*)\]$/
+const ID_TAG_FIELDS: Record<string, Exclude<keyof LyricMetadata, 'offset'>> = {
+  ti: 'title',
+  ar: 'artist',
+  al: 'album',
+  au: 'author',
+  by: 'creator',
+}
+const WORD_TIMESTAMP_REGEX = /<(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?>/g
+const DEFAULT_LAST_WORD_DURATION = 1
 
 const toSeconds = (minutes: number, seconds: number, milliseconds: number) => {
   return minutes * 60 + seconds + milliseconds / 1000
 }
 
+const matchToSeconds = (match: RegExpMatchArray) => {
+  const minutes = Number(match[1])
+  const seconds = Number(match[2])
+  const milliseconds = match[3] ? Number(match[3].padEnd(3, '0')) : 0
+  return toSeconds(minutes, seconds, milliseconds)
+}
+
+export const parseLrcMetadata = (lrc?: string | null): LyricMetadata => {
+  const metadata: LyricMetadata = { offset: 0 }
+  if (!lrc) {
+    return metadata
+  }
+
+  for (const raw of lrc.split(/\r?\n/)) {
+    const match = raw.trim().match(ID_TAG_REGEX)
+    if (!match) {
+      continue
+    }
+    const key = match[1].toLowerCase()
+    const value = match[2].trim()
+    if (key === 'offset') {
+      const offset = Number(value)
+      if (Number.isFinite(offset)) {
+        metadata.offset = offset
+      }
+      continue
+    }
+    const field = ID_TAG_FIELDS[key]
+    if (field && value) {
+      metadata[field] = value
+    }
+  }
+
+  return metadata
+}
+
+interface WordSegment {
+  time: number
+  text: string
+}
+
+/**
+ * Splits enhanced LRC content such as `<00:12.30>Hel<00:12.55>lo <00:13.10>` into
+ * timed words. A trailing timestamp without text marks the end of the last word;
+ * otherwise the end is filled in later from the following line.
+ */
+const parseWordTimeline = (
+  content: string,
+  lineTime: number,
+  shift: number,
+  pattern: RegExp = WORD_TIMESTAMP_REGEX,
+  readTime: (match: RegExpMatchArray) => number = matchToSeconds,
+): { text: string; words?: LyricWord[] } => {
+  pattern.lastIndex = 0
+  const stamps = Array.from(content.matchAll(pattern))
+
+  if (!stamps.length) {
+    return { text: content.trim() }
+  }
+
+  const segments: WordSegment[] = []
+  const leading = content.slice(0, stamps[0].index ?? 0)
+  if (leading.trim()) {
+    segments.push({ time: lineTime, text: leading })
+  }
+
+  stamps.forEach((match, index) => {
+    const start = (match.index ?? 0) + match[0].length
+    const end = index + 1 < stamps.length ? stamps[index + 1].index ?? content.length : content.length
+    segments.push({ time: readTime(match) + shift, text: content.slice(start, end) })
+  })
+
+  const words: LyricWord[] = []
+  segments.forEach((segment, index) => {
+    if (!segment.text.trim()) {
+      return
+    }
+    const next = segments[index + 1]
+    words.push({
+      time: segment.time,
+      endTime: next ? next.time : Number.POSITIVE_INFINITY,
+      text: segment.text,
+    })
+  })
+
+  const text = words
+    .map((word) => word.text)
+    .join('')
+    .trim()
+
+  return words.length ? { text, words } : { text }
+}
+
 export const parseLrc = (lrc?: string | null): ParsedLyricLine[] => {
   if (!lrc) {
     return []
   }
 
+  const { offset } = parseLrcMetadata(lrc)
+  const shiftSeconds = -offset / 1000
+
   const lines = lrc
     .split(/\r?\n/)
     .map((raw) => raw.trim())
@@ -33,47 +167,636 @@ export const parseLrc = (lrc?: string | null): ParsedLyricLine[] => {
       continue
     }
 
-    const text = line.replace(TIMESTAMP_REGEX, '').trim()
-    if (!text) {
+    const content = line.replace(TIMESTAMP_REGEX, '')
+    const firstTime = matchToSeconds(matches[0])
+
+    for (const match of matches) {
+      const stamp = matchToSeconds(match)
+      const time = Math.max(0, stamp + shiftSeconds)
+      const { text, words } = parseWordTimeline(content, time, stamp - firstTime + shiftSeconds)
+      result.push(words ? { time, text, words } : { time, text })
+    }
+  }
+
+  const sorted = result.sort((a, b) => a.time - b.time)
+
+  return sorted.map((line, index) => {
+    if (!line.words) {
+      return line
+    }
+    const last = line.words[line.words.length - 1]
+    if (Number.isFinite(last.endTime)) {
+      return line
+    }
+    const nextTime = sorted[index + 1]?.time
+    const endTime =
+      nextTime !== undefined && nextTime > last.time ? nextTime : last.time + DEFAULT_LAST_WORD_DURATION
+    return {
+      ...line,
+      words: [...line.words.slice(0, -1), { ...last, endTime }],
+    }
+  })
+}
+
+const INTERLUDE_MIN_GAP = 4
+const TTML_METADATA_NS = 'http://www.w3.org/ns/ttml#metadata'
+const CLOCK_TIME = '(?:\\d+:)?\\d{1,2}:\\d{2}(?:\\.\\d{1,3})?'
+const VTT_TIMING_REGEX = new RegExp(`^(${CLOCK_TIME})\\s+-->\\s+(${CLOCK_TIME})`)
+const VTT_INLINE_TIMESTAMP_REGEX = new RegExp(`<(${CLOCK_TIME})>`, 'g')
+const VTT_VOICE_REGEX = /<v(?:\.[^\s>]*)?\s+([^>]+)>/
+const VTT_MARKUP_REGEX = /<(?!\d)[^>]*>/g
+
+interface TimedLyricLine extends LyricLine {
+  end?: number
+}
+
+const parseClockTime = (value: string) =>
+  value.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+
+const withWordEnds = (words: LyricWord[], lineEnd: number | undefined): LyricWord[] =>
+  words.map((word, index) => {
+    if (Number.isFinite(word.endTime)) {
+      return word
+    }
+    const nextTime = words[index + 1]?.time
+    const endTime = nextTime ?? (lineEnd !== undefined && lineEnd > word.time ? lineEnd : undefined)
+    return { ...word, endTime: endTime ?? word.time + DEFAULT_LAST_WORD_DURATION }
+  })
+
+/** Sorts timed lines and inserts an empty interlude line into long gaps between them. */
+const finalizeTimedLines = (lines: TimedLyricLine[]): LyricLine[] => {
+  const sorted = [...lines].sort((a, b) => a.time - b.time)
+  const result: LyricLine[] = []
+  sorted.forEach((line, index) => {
+    const { end, ...rest } = line
+    result.push(rest)
+    const next = sorted[index + 1]
+    if (end !== undefined && next && next.time - end >= INTERLUDE_MIN_GAP) {
+      result.push({ time: end, text: '' })
+    }
+  })
+  return result
+}
+
+const parseTtmlTime = (value: string | null): number | null => {
+  if (!value) {
+    return null
+  }
+  const trimmed = value.trim()
+  const offsetMatch = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms)$/)
+  if (offsetMatch) {
+    const amount = Number(offsetMatch[1])
+    const unit = offsetMatch[2]
+    return unit === 'h' ? amount * 3600 : unit === 'm' ? amount * 60 : unit === 'ms' ? amount / 1000 : amount
+  }
+  const parts = trimmed.split(':')
+  if (parts.length > 3 || parts.some((part) => !part || Number.isNaN(Number(part)))) {
+    return null
+  }
+  return parseClockTime(trimmed)
+}
+
+const getTtmlMetadataAttribute = (element: Element, name: string) =>
+  element.getAttributeNS(TTML_METADATA_NS, name) ?? element.getAttribute(`ttm:${name}`)
+
+interface TtmlTextRun {
+  text: string
+  words: LyricWord[]
+}
+
+const appendTtmlText = (run: TtmlTextRun, value: string, fallbackTime: number) => {
+  const collapsed = value.replace(/\s+/g, ' ')
+  if (!collapsed) {
+    return
+  }
+  const last = run.words[run.words.length - 1]
+  if (last) {
+    if (collapsed.trim()) {
+      const time = Number.isFinite(last.endTime) ? last.endTime : last.time
+      run.words.push({ time, endTime: time, text: collapsed })
+    } else {
+      last.text += collapsed
+    }
+  } else if (collapsed.trim()) {
+    run.words.push({ time: fallbackTime, endTime: fallbackTime, text: collapsed })
+  }
+  run.text += collapsed
+}
+
+const collectTranslationMap = (doc: Document, container: string) => {
+  const map = new Map<string, string>()
+  for (const group of Array.from(doc.getElementsByTagName('*'))) {
+    if (group.localName !== container) {
+      continue
+    }
+    for (const entry of Array.from(group.getElementsByTagName('*'))) {
+      const key = entry.getAttribute('for')
+      const value = entry.textContent?.replace(/\s+/g, ' ').trim()
+      if (entry.localName === 'text' && key && value && !map.has(key)) {
+        map.set(key, value)
+      }
+    }
+  }
+  return map
+}
+
+/**
+ * Parses Apple-style TTML. Timed `<span>`s become words, `ttm:agent` marks the singer,
+ * `ttm:role="x-bg"` spans become background vocals and `x-translation` / `x-roman`
+ * spans (or the iTunes translation metadata) fill in translation and romanization.
+ */
+export const parseTtml = (ttml?: string | null): LyricLine[] => {
+  if (!ttml || typeof DOMParser === 'undefined') {
+    return []
+  }
+
+  const doc = new DOMParser().parseFromString(ttml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length) {
+    return []
+  }
+
+  const translations = collectTranslationMap(doc, 'translation')
+  const transliterations = collectTranslationMap(doc, 'transliteration')
+  const lines: TimedLyricLine[] = []
+
+  for (const paragraph of Array.from(doc.getElementsByTagName('*'))) {
+    if (paragraph.localName !== 'p') {
+      continue
+    }
+
+    const begin = parseTtmlTime(paragraph.getAttribute('begin'))
+    const end = parseTtmlTime(paragraph.getAttribute('end')) ?? undefined
+    const lineStart = begin ?? 0
+    const main: TtmlTextRun = { text: '', words: [] }
+    const background: TtmlTextRun = { text: '', words: [] }
+    let translation: string | undefined
+    let romanization: string | undefined
+
+    const visit = (node: Node, run: TtmlTextRun) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === 3) {
+          appendTtmlText(run, child.textContent ?? '', lineStart)
+          continue
+        }
+        if (child.nodeType !== 1) {
+          continue
+        }
+        const element = child as Element
+        const role = getTtmlMetadataAttribute(element, 'role')
+        if (role === 'x-translation') {
+          translation = element.textContent?.trim() || translation
+          continue
+        }
+        if (role === 'x-roman') {
+          romanization = element.textContent?.trim() || romanization
+          continue
+        }
+        if (role === 'x-bg') {
+          visit(element, background)
+          continue
+        }
+        if (element.localName === 'br') {
+          appendTtmlText(run, ' ', lineStart)
+          continue
+        }
+        const wordStart = parseTtmlTime(element.getAttribute('begin'))
+        if (wordStart !== null && element.children.length === 0) {
+          const text = (element.textContent ?? '').replace(/\s+/g, ' ')
+          if (text) {
+            const wordEnd = parseTtmlTime(element.getAttribute('end'))
+            run.words.push({
+              time: wordStart,
+              endTime: wordEnd ?? Number.POSITIVE_INFINITY,
+              text,
+            })
+            run.text += text
+          }
+          continue
+        }
+        visit(element, run)
+      }
+    }
+
+    visit(paragraph, main)
+
+    const time = begin ?? main.words[0]?.time
+    const text = main.text.trim()
+    if (time === undefined || (!text && !background.text.trim())) {
       continue
     }
 
-    for (const match of matches) {
-      const minutes = Number(match[1])
-      const seconds = Number(match[2])
-      const milliseconds = match[3] ? Number(match[3].padEnd(3, '0')) : 0
-      const time = toSeconds(minutes, seconds, milliseconds)
-      result.push({ time, text })
+    const line: TimedLyricLine = { time, text, end }
+    if (main.words.some((word) => word.time !== word.endTime)) {
+      line.words = withWordEnds(main.words, end)
+    }
+    if (background.text.trim()) {
+      line.background = { text: background.text.trim() }
+      if (background.words.some((word) => word.time !== word.endTime)) {
+        line.background.words = withWordEnds(background.words, end)
+      }
     }
+    const agent = getTtmlMetadataAttribute(paragraph, 'agent')
+    if (agent) {
+      line.agent = agent
+    }
+    const key = paragraph.getAttribute('itunes:key') ?? paragraph.getAttribute('key')
+    translation = translation ?? (key ? translations.get(key) : undefined)
+    romanization = romanization ?? (key ? transliterations.get(key) : undefined)
+    if (translation) {
+      line.translation = translation
+    }
+    if (romanization) {
+      line.romanization = romanization
+    }
+    lines.push(line)
+  }
+
+  return finalizeTimedLines(lines)
+}
+
+const decodeVttEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+
+/**
+ * Parses WebVTT lyrics. The first payload line of a cue is the lyric; a second and
+ * third line are read as translation and romanization. Inline `<00:00:12.500>`
+ * timestamps become words and `<v Singer>` sets the agent.
+ */
+export const parseVtt = (vtt?: string | null): LyricLine[] => {
+  if (!vtt) {
+    return []
+  }
+
+  const blocks = vtt.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/)
+  const lines: TimedLyricLine[] = []
+
+  for (const block of blocks) {
+    const rows = block.split(/\r?\n/).map((row) => row.trim())
+    const timingIndex = rows.findIndex((row) => VTT_TIMING_REGEX.test(row))
+    if (timingIndex === -1) {
+      continue
+    }
+    const timing = rows[timingIndex].match(VTT_TIMING_REGEX)
+    if (!timing) {
+      continue
+    }
+
+    const time = parseClockTime(timing[1])
+    const end = parseClockTime(timing[2])
+    const [first = '', second, third] = rows.slice(timingIndex + 1).filter(Boolean)
+    const agent = first.match(VTT_VOICE_REGEX)?.[1]?.trim()
+    const stripMarkup = (value: string) => decodeVttEntities(value.replace(VTT_MARKUP_REGEX, ''))
+
+    const { text, words } = parseWordTimeline(
+      stripMarkup(first),
+      time,
+      0,
+      VTT_INLINE_TIMESTAMP_REGEX,
+      (match) => parseClockTime(match[1]),
+    )
+
+    const line: TimedLyricLine = { time, text, end }
+    if (words) {
+      line.words = withWordEnds(words, end)
+    }
+    if (agent) {
+      line.agent = agent
+    }
+    const translation = second ? stripMarkup(second).replace(VTT_INLINE_TIMESTAMP_REGEX, '').trim() : ''
+    if (translation) {
+      line.translation = translation
+    }
+    const romanization = third ? stripMarkup(third).replace(VTT_INLINE_TIMESTAMP_REGEX, '').trim() : ''
+    if (romanization) {
+      line.romanization = romanization
+    }
+    lines.push(line)
+  }
+
+  return finalizeTimedLines(lines)
+}
+
+export const detectLyricFormat = (content?: string | null): LyricFormat => {
+  const head = (content ?? '').replace(/^\uFEFF/, '').trimStart()
+  if (/^WEBVTT(?:\s|$)/.test(head)) {
+    return 'vtt'
+  }
+  if (/^<\?xml/i.test(head) || /<tt[\s>]/i.test(head.slice(0, 512))) {
+    return 'ttml'
+  }
+  return 'lrc'
+}
+
+/** Parses LRC, TTML or WebVTT lyrics, detecting the format from the content. */
+export const parseLyrics = (content?: string | null): LyricLine[] => {
+  if (!content) {
+    return []
+  }
+  switch (detectLyricFormat(content)) {
+    case 'ttml':
+      return parseTtml(content)
+    case 'vtt':
+      return parseVtt(content)
+    default:
+      return parseLrc(content)
+  }
+}
+
+export interface MergeLyricsOptions {
+  /** Maximum distance in seconds between an original line and its translation. */
+  tolerance?: number
+}
+
+const DEFAULT_ALIGNMENT_TOLERANCE = 0.3
+
+interface TimeGroup {
+  time: number
+  indexes: number[]
+}
+
+const groupByTime = (lines: ParsedLyricLine[]): TimeGroup[] => {
+  const groups: TimeGroup[] = []
+  lines.forEach((line, index) => {
+    if (!line.text) {
+      return
+    }
+    const last = groups[groups.length - 1]
+    if (last && Math.abs(last.time - line.time) < 0.001) {
+      last.indexes.push(index)
+    } else {
+      groups.push({ time: line.time, indexes: [index] })
+    }
+  })
+  return groups
+}
+
+const findNearestGroup = (groups: TimeGroup[], time: number) => {
+  let low = 0
+  let high = groups.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (groups[mid].time < time) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  if (low > 0 && Math.abs(groups[low - 1].time - time) <= Math.abs(groups[low].time - time)) {
+    return low - 1
+  }
+  return low
+}
+
+/**
+ * Pairs every auxiliary line (translation, romanization) with the nearest original
+ * timestamp within `tolerance`. Lines that share a timestamp are paired in order.
+ */
+const alignAuxiliaryLines = (
+  base: ParsedLyricLine[],
+  auxiliary: ParsedLyricLine[],
+  tolerance: number,
+): (string | undefined)[] => {
+  const aligned: (string | undefined)[] = new Array(base.length).fill(undefined)
+  const baseGroups = groupByTime(base)
+  const auxiliaryGroups = groupByTime(auxiliary)
+
+  if (!baseGroups.length || !auxiliaryGroups.length) {
+    return aligned
   }
 
-  return result.sort((a, b) => a.time - b.time)
+  const claims = new Map<number, { group: TimeGroup; distance: number }>()
+  for (const group of auxiliaryGroups) {
+    const nearest = findNearestGroup(baseGroups, group.time)
+    const distance = Math.abs(baseGroups[nearest].time - group.time)
+    if (distance > tolerance) {
+      continue
+    }
+    const existing = claims.get(nearest)
+    if (!existing || distance < existing.distance) {
+      claims.set(nearest, { group, distance })
+    }
+  }
+
+  claims.forEach(({ group }, baseGroupIndex) => {
+    const targets = baseGroups[baseGroupIndex].indexes
+    group.indexes.forEach((auxiliaryIndex, order) => {
+      const target = targets[order]
+      if (target !== undefined) {
+        aligned[target] = auxiliary[auxiliaryIndex].text
+      }
+    })
+  })
+
+  return aligned
 }
 
 export const mergeLyrics = (
   original?: string | null,
   translated?: string | null,
+  romanized?: string | null,
+  options: MergeLyricsOptions = {},
 ): LyricLine[] => {
-  const base = parseLrc(original)
-  const translatedLines = parseLrc(translated)
+  const base = parseLyrics(original)
+  const translatedLines = parseLyrics(translated)
+  const romanizedLines = parseLyrics(romanized)
 
-  if (!translatedLines.length) {
+  if (!translatedLines.length && !romanizedLines.length) {
     return base
   }
 
-  const translationMap = new Map<number, string>()
-  for (const line of translatedLines) {
-    const key = Math.round(line.time * 100)
-    if (!translationMap.has(key)) {
-      translationMap.set(key, line.text)
+  const tolerance = options.tolerance ?? DEFAULT_ALIGNMENT_TOLERANCE
+  const translations = alignAuxiliaryLines(base, translatedLines, tolerance)
+  const romanizations = alignAuxiliaryLines(base, romanizedLines, tolerance)
+
+  return base.map((line, index) => {
+    const merged: LyricLine = { ...line }
+    if (translations[index]) {
+      merged.translation = translations[index]
     }
-  }
+    if (romanizations[index]) {
+      merged.romanization = romanizations[index]
+    }
+    return merged
+  })
+}
 
-  return base.map((line) => {
-    const key = Math.round(line.time * 100)
+export interface LyricTimelinePosition {
+  index: number
+  /** Time at which `index` became active; `-Infinity` before the second line. */
+  start: number
+  /** Time at which the next line takes over; `Infinity` after the last line. */
+  end: number
+}
+
+export interface LyricTimeline {
+  locate: (time: number) => LyricTimelinePosition
+}
+
+const createLyricTimeline = (lines: ParsedLyricLine[]): LyricTimeline => {
+  const times = lines.map((line) => line.time)
+  let cached: LyricTimelinePosition | null = null
+
+  const search = (time: number): LyricTimelinePosition => {
+    if (!times.length) {
+      return { index: 0, start: Number.NEGATIVE_INFINITY, end: Number.POSITIVE_INFINITY }
+    }
+    // First line strictly after `time`; the active line is the one before it.
+    let low = 0
+    let high = times.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (times[mid] <= time) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+    const index = Math.max(0, low - 1)
     return {
-      ...line,
-      translation: translationMap.get(key),
+      index,
+      start: index === 0 ? Number.NEGATIVE_INFINITY : times[index],
+      end: index + 1 < times.length ? times[index + 1] : Number.POSITIVE_INFINITY,
+    }
+  }
+
+  return {
+    locate: (time) => {
+      if (cached && time >= cached.start && time < cached.end) {
+        return cached
+      }
+      cached = search(time)
+      return cached
+    },
+  }
+}
+
+const timelineCache = new WeakMap<ParsedLyricLine[], LyricTimeline>()
+
+export const getLyricTimeline = (lines: ParsedLyricLine[]): LyricTimeline => {
+  let timeline = timelineCache.get(lines)
+  if (!timeline) {
+    timeline = createLyricTimeline(lines)
+    timelineCache.set(lines, timeline)
+  }
+  return timeline
+}
+
+export type LyricExportFormat = 'lrc' | 'bilingual-lrc' | 'srt' | 'txt'
+
+export interface SerializeLyricsOptions {
+  /** Written as `[ti:]`, `[ar:]` … header tags in LRC output. */
+  metadata?: Partial<Omit<LyricMetadata, 'offset'>>
+  /** Seconds added to every timestamp, e.g. to bake in a manual lyric offset. */
+  shift?: number
+  /** Track length in seconds; closes the final SRT cue. */
+  duration?: number
+}
+
+const SRT_LAST_CUE_DURATION = 5
+const ID_TAG_NAMES = Object.fromEntries(
+  Object.entries(ID_TAG_FIELDS).map(([tag, field]) => [field, tag]),
+) as Record<Exclude<keyof LyricMetadata, 'offset'>, string>
+
+const formatLrcTime = (seconds: number) => {
+  const centiseconds = Math.round(Math.max(0, seconds) * 100)
+  const minutes = Math.floor(centiseconds / 6000)
+  const rest = centiseconds % 6000
+  return `${String(minutes).padStart(2, '0')}:${String(Math.floor(rest / 100)).padStart(2, '0')}.${String(
+    rest % 100,
+  ).padStart(2, '0')}`
+}
+
+const formatSrtTime = (seconds: number) => {
+  const total = Math.round(Math.max(0, seconds) * 1000)
+  const hours = Math.floor(total / 3600000)
+  const minutes = Math.floor((total % 3600000) / 60000)
+  const secs = Math.floor((total % 60000) / 1000)
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(
+    2,
+    '0',
+  )},${String(total % 1000).padStart(3, '0')}`
+}
+
+/** Enhanced LRC body: each word gets a start stamp, and a closing stamp wherever it ends early. */
+const formatLrcWords = (words: LyricWord[], shift: number) =>
+  words
+    .map((word, index) => {
+      const next = words[index + 1]
+      const start = `<${formatLrcTime(word.time + shift)}>${word.text}`
+      const endsEarly = Number.isFinite(word.endTime) && (!next || word.endTime < next.time)
+      return endsEarly ? `${start}<${formatLrcTime(word.endTime + shift)}>` : start
+    })
+    .join('')
+
+const serializeLrc = (lines: LyricLine[], options: SerializeLyricsOptions, bilingual: boolean) => {
+  const shift = options.shift ?? 0
+  const header = Object.entries(options.metadata ?? {})
+    .filter(([, value]) => value?.trim())
+    .map(([field, value]) => `[${ID_TAG_NAMES[field as keyof typeof ID_TAG_NAMES]}:${value?.trim()}]`)
+
+  const body = lines.flatMap((line) => {
+    const stamp = `[${formatLrcTime(line.time + shift)}]`
+    const content = line.words?.length && !bilingual ? formatLrcWords(line.words, shift) : line.text
+    const output = [`${stamp}${content}`]
+    if (bilingual && line.translation) {
+      output.push(`${stamp}${line.translation}`)
     }
+    return output
   })
+
+  return [...header, ...body].join('\n')
+}
+
+const serializeSrt = (lines: LyricLine[], options: SerializeLyricsOptions) => {
+  const shift = options.shift ?? 0
+  const cues: string[] = []
+
+  lines.forEach((line, index) => {
+    if (!line.text.trim()) {
+      return
+    }
+    const start = line.time + shift
+    const nextTime = lines[index + 1]?.time
+    const end =
+      nextTime !== undefined
+        ? nextTime + shift
+        : Math.max(start + 1, options.duration ?? start + SRT_LAST_CUE_DURATION)
+    const text = [line.text, line.translation].filter(Boolean).join('\n')
+    cues.push(`${cues.length + 1}\n${formatSrtTime(start)} --> ${formatSrtTime(end)}\n${text}`)
+  })
+
+  return cues.join('\n\n')
+}
+
+const serializePlainText = (lines: LyricLine[]) =>
+  lines
+    .map((line) => [line.text, line.translation].filter(Boolean).join('\n'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+/**
+ * Writes merged lyrics back out. Plain LRC keeps word timings as enhanced LRC;
+ * bilingual LRC repeats each timestamp for the translation, which most players
+ * render as a second line.
+ */
+export const serializeLyrics = (
+  lines: LyricLine[],
+  format: LyricExportFormat,
+  options: SerializeLyricsOptions = {},
+): string => {
+  switch (format) {
+    case 'lrc':
+      return serializeLrc(lines, options, false)
+    case 'bilingual-lrc':
+      return serializeLrc(lines, options, true)
+    case 'srt':
+      return serializeSrt(lines, options)
+    case 'txt':
+      return serializePlainText(lines)
+  }
 }
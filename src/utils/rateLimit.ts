@@ -0,0 +1,30 @@
+export interface RateLimiter {
+  /** Counts one request against the window. */
+  record: () => void
+  /** Requests still available in the current sliding window. */
+  remaining: () => number
+}
+
+/** Sliding-window request counter; it never blocks, callers decide what to skip. */
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  let timestamps: number[] = []
+
+  const prune = (now: number) => {
+    const cutoff = now - windowMs
+    if (timestamps.length && timestamps[0] <= cutoff) {
+      timestamps = timestamps.filter((timestamp) => timestamp > cutoff)
+    }
+  }
+
+  return {
+    record: () => {
+      const now = Date.now()
+      prune(now)
+      timestamps.push(now)
+    },
+    remaining: () => {
+      prune(Date.now())
+      return Math.max(0, limit - timestamps.length)
+    },
+  }
+}
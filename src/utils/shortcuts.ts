@@ -0,0 +1,67 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'previous'
+  | 'next'
+  | 'shuffle'
+  | 'repeat'
+  | 'togglePanel'
+  | 'focusSearch'
+  | 'cycleQuality'
+  | 'help'
+
+export interface KeyboardShortcut {
+  action: ShortcutAction
+  /** `KeyboardEvent.key` values that trigger the action. */
+  keys: string[]
+  /** Keys as shown in the help overlay. */
+  display: string[]
+  label: string
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { action: 'playPause', keys: [' ', 'k', 'K'], display: ['空格', 'K'], label: '播放 / 暂停' },
+  { action: 'seekBackward', keys: ['ArrowLeft'], display: ['←'], label: '后退 5 秒' },
+  { action: 'seekForward', keys: ['ArrowRight'], display: ['→'], label: '前进 5 秒' },
+  { action: 'volumeUp', keys: ['ArrowUp'], display: ['↑'], label: '增大音量' },
+  { action: 'volumeDown', keys: ['ArrowDown'], display: ['↓'], label: '减小音量' },
+  { action: 'previous', keys: ['p', 'P'], display: ['P'], label: '上一首' },
+  { action: 'next', keys: ['n', 'N'], display: ['N'], label: '下一首' },
+  { action: 'shuffle', keys: ['s', 'S'], display: ['S'], label: '开关随机播放' },
+  { action: 'repeat', keys: ['r', 'R'], display: ['R'], label: '切换循环模式' },
+  { action: 'togglePanel', keys: ['l', 'L'], display: ['L'], label: '切换歌词 / 播放列表' },
+  { action: 'focusSearch', keys: ['/'], display: ['/'], label: '聚焦搜索框' },
+  { action: 'cycleQuality', keys: ['q', 'Q'], display: ['Q'], label: '切换音质' },
+  { action: 'help', keys: ['?'], display: ['?'], label: '显示快捷键帮助' },
+]
+
+const NATIVE_SPACE_TARGETS = new Set(['BUTTON', 'A', 'SUMMARY', 'SELECT'])
+const NATIVE_ARROW_INPUT_TYPES = new Set(['range', 'radio', 'number'])
+
+/** True when the key should reach the focused element instead of a shortcut. */
+const isHandledByTarget = (event: KeyboardEvent) => {
+  const target = event.target
+  if (!(target instanceof HTMLElement)) {
+    return false
+  }
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') {
+    return true
+  }
+  if (target instanceof HTMLInputElement) {
+    return !NATIVE_ARROW_INPUT_TYPES.has(target.type) || event.key.startsWith('Arrow') || event.key === ' '
+  }
+  if (event.key === ' ') {
+    return NATIVE_SPACE_TARGETS.has(target.tagName) || target.getAttribute('role') === 'button'
+  }
+  return false
+}
+
+export const matchShortcut = (event: KeyboardEvent): ShortcutAction | null => {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isHandledByTarget(event)) {
+    return null
+  }
+  return KEYBOARD_SHORTCUTS.find((shortcut) => shortcut.keys.includes(event.key))?.action ?? null
+}
@@ -0,0 +1,159 @@
+import type { BackgroundPalette } from './palette'
+
+export type VisualizerStyle = 'bars' | 'wave' | 'circle'
+export type VisualizerPlacement = 'off' | 'artwork' | 'lyrics'
+
+export interface VisualizerSettings {
+  placement: VisualizerPlacement
+  style: VisualizerStyle
+}
+
+export const DEFAULT_VISUALIZER: VisualizerSettings = { placement: 'off', style: 'bars' }
+
+const VALID_STYLES = new Set<VisualizerStyle>(['bars', 'wave', 'circle'])
+const VALID_PLACEMENTS = new Set<VisualizerPlacement>(['off', 'artwork', 'lyrics'])
+
+const BAR_COUNT = 48
+const CIRCLE_BAR_COUNT = 96
+/** The top quarter of the spectrum is nearly empty for most music, so it is left out. */
+const SPECTRUM_SHARE = 0.75
+
+export const sanitizeVisualizerSettings = (raw: unknown): VisualizerSettings | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null
+  }
+  const record = raw as Record<string, unknown>
+  return {
+    placement: VALID_PLACEMENTS.has(record.placement as VisualizerPlacement)
+      ? (record.placement as VisualizerPlacement)
+      : DEFAULT_VISUALIZER.placement,
+    style: VALID_STYLES.has(record.style as VisualizerStyle)
+      ? (record.style as VisualizerStyle)
+      : DEFAULT_VISUALIZER.style,
+  }
+}
+
+// Groups FFT bins on a logarithmic scale so each band covers a similar musical range.
+const getBandLevel = (data: Uint8Array, band: number, bands: number) => {
+  const maxBin = Math.floor(data.length * SPECTRUM_SHARE)
+  const start = Math.floor(Math.pow(maxBin, band / bands))
+  const end = Math.max(start + 1, Math.floor(Math.pow(maxBin, (band + 1) / bands)))
+  let peak = 0
+  for (let bin = start; bin < end && bin < data.length; bin += 1) {
+    peak = Math.max(peak, data[bin])
+  }
+  return peak / 255
+}
+
+const drawBars = (
+  context: CanvasRenderingContext2D,
+  data: Uint8Array,
+  width: number,
+  height: number,
+  palette: BackgroundPalette,
+) => {
+  const slot = width / BAR_COUNT
+  const barWidth = slot * 0.7
+  const gradient = context.createLinearGradient(0, height, 0, 0)
+  gradient.addColorStop(0, palette.accentSoft)
+  gradient.addColorStop(1, palette.accentStrong)
+  context.fillStyle = gradient
+  for (let bar = 0; bar < BAR_COUNT; bar += 1) {
+    const barHeight = Math.max(2, getBandLevel(data, bar, BAR_COUNT) * height * 0.9)
+    context.fillRect(bar * slot + (slot - barWidth) / 2, height - barHeight, barWidth, barHeight)
+  }
+}
+
+const drawWave = (
+  context: CanvasRenderingContext2D,
+  data: Uint8Array,
+  width: number,
+  height: number,
+  palette: BackgroundPalette,
+  scale: number,
+) => {
+  context.lineWidth = 2 * scale
+  context.lineJoin = 'round'
+  context.strokeStyle = palette.accentStrong
+  context.shadowColor = palette.accent
+  context.shadowBlur = 12 * scale
+  context.beginPath()
+  for (let index = 0; index < data.length; index += 1) {
+    const x = (index / (data.length - 1)) * width
+    const y = (data[index] / 255) * height
+    if (index === 0) {
+      context.moveTo(x, y)
+    } else {
+      context.lineTo(x, y)
+    }
+  }
+  context.stroke()
+  context.shadowBlur = 0
+}
+
+const drawCircle = (
+  context: CanvasRenderingContext2D,
+  data: Uint8Array,
+  width: number,
+  height: number,
+  palette: BackgroundPalette,
+  scale: number,
+) => {
+  const centerX = width / 2
+  const centerY = height / 2
+  const size = Math.min(width, height)
+  const radius = size * 0.28
+  const maxLength = size * 0.2
+  const halfCount = CIRCLE_BAR_COUNT / 2
+
+  context.lineWidth = 1.5 * scale
+  context.strokeStyle = palette.accentSoft
+  context.beginPath()
+  context.arc(centerX, centerY, radius, 0, Math.PI * 2)
+  context.stroke()
+
+  context.lineCap = 'round'
+  context.lineWidth = Math.max(2 * scale, ((Math.PI * 2 * radius) / CIRCLE_BAR_COUNT) * 0.45)
+  context.strokeStyle = palette.accentStrong
+  context.beginPath()
+  for (let bar = 0; bar < CIRCLE_BAR_COUNT; bar += 1) {
+    // Mirrors the spectrum so the lows meet at the top and the ring stays symmetric.
+    const band = bar < halfCount ? bar : CIRCLE_BAR_COUNT - 1 - bar
+    const length = 2 * scale + getBandLevel(data, band, halfCount) * maxLength
+    const angle = (bar / CIRCLE_BAR_COUNT) * Math.PI * 2 - Math.PI / 2
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    context.moveTo(centerX + cos * radius, centerY + sin * radius)
+    context.lineTo(centerX + cos * (radius + length), centerY + sin * (radius + length))
+  }
+  context.stroke()
+}
+
+/**
+ * Draws one frame from the analyser. `buffer` must hold at least `analyser.fftSize`
+ * bytes; it is reused between frames to avoid allocating on every tick.
+ */
+export const drawVisualizerFrame = (
+  context: CanvasRenderingContext2D,
+  analyser: AnalyserNode,
+  style: VisualizerStyle,
+  palette: BackgroundPalette,
+  buffer: Uint8Array<ArrayBuffer>,
+  scale: number,
+) => {
+  const { width, height } = context.canvas
+  context.clearRect(0, 0, width, height)
+  if (style === 'wave') {
+    const waveform = buffer.subarray(0, analyser.fftSize)
+    analyser.getByteTimeDomainData(waveform)
+    drawWave(context, waveform, width, height, palette, scale)
+    return
+  }
+  const spectrum = buffer.subarray(0, analyser.frequencyBinCount)
+  analyser.getByteFrequencyData(spectrum)
+  if (style === 'circle') {
+    drawCircle(context, spectrum, width, height, palette, scale)
+  } else {
+    drawBars(context, spectrum, width, height, palette)
+  }
+}